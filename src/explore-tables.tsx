@@ -1,11 +1,73 @@
 import { Action, ActionPanel, List, launchCommand, LaunchType, type LaunchProps, Icon } from "@raycast/api";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { getDatabases, getDefaultDatabase, type StoredDatabase } from "./lib/databases";
-import { readSchemaCache, type SchemaCache, type TableCacheEntry } from "./lib/cache";
+import { getDatabases, getDefaultDatabase, isDdlExtraEnabled, type StoredDatabase } from "./lib/databases";
+import {
+  isRoutine,
+  readSchemaCache,
+  type DdlExtraKind,
+  type DependencyKind,
+  type EnumCacheEntry,
+  type SchemaCache,
+  type TableCacheEntry,
+} from "./lib/cache";
 import { filterTables, getExclusionRules, type ExclusionRule } from "./lib/exclusion";
 
 type ExploreLaunchContext = { databaseId?: string };
 
+const TABLE_TYPE_ICONS: Record<TableCacheEntry["type"], { value: Icon; tooltip: string }> = {
+  table: { value: Icon.AppWindowGrid3x3, tooltip: "Table" },
+  view: { value: Icon.Eye, tooltip: "View" },
+  materialized_view: { value: Icon.Layers, tooltip: "Materialized view" },
+  foreign_table: { value: Icon.Globe, tooltip: "Foreign table" },
+  function: { value: Icon.Code, tooltip: "Function" },
+  procedure: { value: Icon.Terminal, tooltip: "Procedure" },
+};
+
+const DDL_EXTRA_ORDER: DdlExtraKind[] = ["triggers", "policies", "grants"];
+
+/**
+ * DDL to show and copy for the active database: routine signatures instead of full bodies when asked for,
+ * followed by the triggers / policies / grants sections the database has turned on.
+ */
+function entryDdl(entry: TableCacheEntry, db: StoredDatabase | null): string {
+  const base = db?.functionSignaturesOnly && entry.signature ? entry.signature : entry.ddl;
+  const extras = DDL_EXTRA_ORDER.flatMap((kind) =>
+    db && entry.extras?.[kind] && isDdlExtraEnabled(db, kind) ? [entry.extras[kind]!] : [],
+  );
+  return [base, ...extras].join("\n\n");
+}
+
+/**
+ * Statements for the given enum and dependency keys, each once, followed by the DDL they precede:
+ * extensions, enums, domains, composite types, then sequences.
+ */
+function withPreludeDdl(
+  cache: SchemaCache | null,
+  enumKeys: Iterable<string>,
+  dependencyKeys: Iterable<string>,
+  ddl: string,
+): string {
+  const enumDdls = Array.from(new Set(enumKeys))
+    .sort()
+    .flatMap((key) => (cache?.enums?.[key] ? [cache.enums[key]!.ddl] : []));
+  const dependencies = Array.from(new Set(dependencyKeys))
+    .sort()
+    .flatMap((key) => (cache?.dependencies?.[key] ? [cache.dependencies[key]!] : []));
+  const ofKind = (kind: DependencyKind) => dependencies.filter((d) => d.kind === kind).map((d) => d.ddl);
+  const groups = [ofKind("extension"), enumDdls, ofKind("domain"), ofKind("type"), ofKind("sequence")]
+    .filter((group) => group.length > 0)
+    .map((group) => group.join(group.some((stmt) => stmt.includes("\n")) ? "\n\n" : "\n"));
+  return groups.length > 0 ? `${groups.join("\n\n")}\n\n${ddl}` : ddl;
+}
+
+/** DBML Enum blocks for the given enum keys, each once, followed by the table DBML that uses them. */
+function withEnumsDbml(cache: SchemaCache | null, enumKeys: Iterable<string>, dbml: string): string {
+  const enumDbmls = Array.from(new Set(enumKeys))
+    .sort()
+    .flatMap((key) => (cache?.enums?.[key]?.dbml ? [cache.enums[key]!.dbml!] : []));
+  return enumDbmls.length > 0 ? `${enumDbmls.join("\n\n")}\n\n${dbml}` : dbml;
+}
+
 function tableEntries(cache: SchemaCache): { key: string; entry: TableCacheEntry }[] {
   return Object.entries(cache.tables).map(([key, entry]) => ({ key, entry }));
 }
@@ -23,6 +85,46 @@ function groupBySchema(
   return map;
 }
 
+type TableItem = { key: string; entry: TableCacheEntry };
+
+/** True when the entry is a partition whose partitioned parent is also in the list. */
+function isListedPartition(entry: TableCacheEntry, listedKeys: Set<string>): boolean {
+  return !!entry.parent && listedKeys.has(entry.parent);
+}
+
+/**
+ * Items in display order per schema: top-level tables, each followed by its partitions when the
+ * parent is expanded (recursively, for sub-partitioned tables). Partitions appear under their parent's schema.
+ */
+function displayItemsBySchema(
+  items: TableItem[],
+  expandedParents: Set<string>,
+): { bySchema: Map<string, { item: TableItem; depth: number }[]>; partitionCounts: Map<string, number> } {
+  const listedKeys = new Set(items.map((i) => i.key));
+  const childrenByParent = new Map<string, TableItem[]>();
+  for (const item of items) {
+    if (!isListedPartition(item.entry, listedKeys)) continue;
+    const list = childrenByParent.get(item.entry.parent!) ?? [];
+    list.push(item);
+    childrenByParent.set(item.entry.parent!, list);
+  }
+  const bySchema = new Map<string, { item: TableItem; depth: number }[]>();
+  const append = (list: { item: TableItem; depth: number }[], item: TableItem, depth: number) => {
+    list.push({ item, depth });
+    if (!expandedParents.has(item.key)) return;
+    for (const child of childrenByParent.get(item.key) ?? []) append(list, child, depth + 1);
+  };
+  for (const [schema, schemaItems] of groupBySchema(items)) {
+    const list: { item: TableItem; depth: number }[] = [];
+    for (const item of schemaItems) {
+      if (!isListedPartition(item.entry, listedKeys)) append(list, item, 0);
+    }
+    if (list.length > 0) bySchema.set(schema, list);
+  }
+  const partitionCounts = new Map(Array.from(childrenByParent, ([parent, children]) => [parent, children.length]));
+  return { bySchema, partitionCounts };
+}
+
 type InitState = "loading" | "no-databases" | "picking" | "ready";
 
 export default function Command(props: LaunchProps<{ launchContext?: ExploreLaunchContext }>) {
@@ -33,6 +135,7 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
   const [cache, setCache] = useState<SchemaCache | null>(null);
   const [exclusionRules, setExclusionRules] = useState<ExclusionRule[]>([]);
   const [selectedTableKeys, setSelectedTableKeys] = useState<Set<string>>(new Set());
+  const [expandedParents, setExpandedParents] = useState<Set<string>>(new Set());
 
   const loadDataForDb = useCallback(async (dbId: string) => {
     const [cacheData, rules] = await Promise.all([Promise.resolve(readSchemaCache(dbId)), getExclusionRules(dbId)]);
@@ -74,6 +177,7 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
       setCache(null);
       setExclusionRules([]);
       setSelectedTableKeys(new Set());
+      setExpandedParents(new Set());
       loadDataForDb(dbId);
     },
     [loadDataForDb],
@@ -90,6 +194,15 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
 
   const clearSelection = useCallback(() => setSelectedTableKeys(new Set()), []);
 
+  const togglePartitions = useCallback((key: string) => {
+    setExpandedParents((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
   const refresh = useCallback(() => {
     if (activeDbId) {
       setCache(readSchemaCache(activeDbId));
@@ -103,59 +216,90 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
   const sortedSchemas = useMemo(() => Array.from(bySchema.keys()).sort(), [bySchema]);
   const activeDb = useMemo(() => databases.find((d) => d.id === activeDbId) ?? null, [databases, activeDbId]);
   const showTableNamesOnly = activeDb?.showTableNamesOnly === true;
+  const hidePartitionsFromCopies = activeDb?.hidePartitionsFromCopies === true;
+  const copyItems = useMemo(() => {
+    if (!hidePartitionsFromCopies) return items;
+    const listedKeys = new Set(items.map((i) => i.key));
+    return items.filter((i) => !isListedPartition(i.entry, listedKeys));
+  }, [items, hidePartitionsFromCopies]);
+  const copyBySchema = useMemo(() => groupBySchema(copyItems), [copyItems]);
+  const { bySchema: displayBySchema, partitionCounts } = useMemo(
+    () =>
+      displayItemsBySchema(
+        items.filter((i) => !isRoutine(i.entry)),
+        expandedParents,
+      ),
+    [items, expandedParents],
+  );
+  const routineItems = useMemo(
+    () => items.filter((i) => isRoutine(i.entry)).sort((a, b) => a.key.localeCompare(b.key)),
+    [items],
+  );
+  const enumItems = useMemo(() => Object.entries(cache?.enums ?? {}).sort((a, b) => a[0].localeCompare(b[0])), [cache]);
+  const displaySchemas = useMemo(() => Array.from(displayBySchema.keys()).sort(), [displayBySchema]);
 
   const { selectedOrderedKeys, combinedDdl, combinedDbml, selectedDbmlCount } = useMemo(() => {
     const ordered: string[] = [];
     const ddls: string[] = [];
     const dbmls: string[] = [];
+    const enumKeys: string[] = [];
+    const dbmlEnumKeys: string[] = [];
+    const dependencyKeys: string[] = [];
     for (const schema of sortedSchemas) {
       const schemaItems = bySchema.get(schema) ?? [];
       for (const { key, entry } of schemaItems) {
         if (selectedTableKeys.has(key)) {
           ordered.push(key);
-          ddls.push(entry.ddl);
-          if (entry.dbml) dbmls.push(entry.dbml);
+          ddls.push(entryDdl(entry, activeDb));
+          enumKeys.push(...(entry.enums ?? []));
+          dependencyKeys.push(...(entry.dependencies ?? []));
+          if (entry.dbml) {
+            dbmls.push(entry.dbml);
+            dbmlEnumKeys.push(...(entry.enums ?? []));
+          }
         }
       }
     }
     return {
       selectedOrderedKeys: ordered,
-      combinedDdl: ddls.join("\n\n"),
-      combinedDbml: dbmls.join("\n\n"),
+      combinedDdl: withPreludeDdl(cache, enumKeys, dependencyKeys, ddls.join("\n\n")),
+      combinedDbml: withEnumsDbml(cache, dbmlEnumKeys, dbmls.join("\n\n")),
       selectedDbmlCount: dbmls.length,
     };
-  }, [bySchema, sortedSchemas, selectedTableKeys]);
+  }, [bySchema, sortedSchemas, selectedTableKeys, activeDb, cache]);
 
   const { fullSchemaDdl, fullSchemaDbml, fullSchemaDbmlCount } = useMemo(() => {
     const ddls: string[] = [];
     const dbmls: string[] = [];
+    const dependencyKeys: string[] = [];
     for (const schema of sortedSchemas) {
-      const schemaItems = bySchema.get(schema) ?? [];
+      const schemaItems = copyBySchema.get(schema) ?? [];
       for (const { entry } of schemaItems) {
-        ddls.push(entry.ddl);
+        ddls.push(entryDdl(entry, activeDb));
+        dependencyKeys.push(...(entry.dependencies ?? []));
         if (entry.dbml) dbmls.push(entry.dbml);
       }
     }
     return {
-      fullSchemaDdl: ddls.join("\n\n"),
-      fullSchemaDbml: dbmls.join("\n\n"),
+      fullSchemaDdl: withPreludeDdl(cache, Object.keys(cache?.enums ?? {}), dependencyKeys, ddls.join("\n\n")),
+      fullSchemaDbml: withEnumsDbml(cache, Object.keys(cache?.enums ?? {}), dbmls.join("\n\n")),
       fullSchemaDbmlCount: dbmls.length,
     };
-  }, [bySchema, sortedSchemas]);
+  }, [copyBySchema, sortedSchemas, activeDb, cache]);
 
   const addAllToSelection = useCallback(() => {
-    setSelectedTableKeys(new Set(items.map((i) => i.key)));
-  }, [items]);
+    setSelectedTableKeys(new Set(copyItems.map((i) => i.key)));
+  }, [copyItems]);
 
   const addSchemaToSelection = useCallback(
     (schema: string) => {
       setSelectedTableKeys((prev) => {
         const next = new Set(prev);
-        for (const { key } of bySchema.get(schema) ?? []) next.add(key);
+        for (const { key } of copyBySchema.get(schema) ?? []) next.add(key);
         return next;
       });
     },
-    [bySchema],
+    [copyBySchema],
   );
 
   const removeSchemaFromSelection = useCallback(
@@ -308,6 +452,124 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
       );
     }
 
+    const renderItem = ({ key, entry }: TableItem, schema: string, depth: number) => {
+      const name = showTableNamesOnly && key.includes(".") ? key.split(".").slice(1).join(".") : key;
+      const displayTitle = depth > 0 ? `${"  ".repeat(depth)}↳ ${name}` : name;
+      const isSelected = selectedTableKeys.has(key);
+      const partitionCount = partitionCounts.get(key) ?? 0;
+      const ddl = withPreludeDdl(cache, entry.enums ?? [], entry.dependencies ?? [], entryDdl(entry, activeDb));
+      const markdown = `\`\`\`sql\n${ddl}\n\`\`\``;
+      return (
+        <List.Item
+          key={key}
+          title={displayTitle}
+          icon={TABLE_TYPE_ICONS[entry.type] ?? TABLE_TYPE_ICONS.table}
+          accessoryTitle={
+            [isSelected ? "✓ Selected" : undefined, partitionCount > 0 ? `${partitionCount} partitions` : undefined]
+              .filter(Boolean)
+              .join(" · ") || undefined
+          }
+          detail={<List.Item.Detail markdown={markdown} />}
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard title="Copy DDL" content={ddl} />
+              <Action
+                title={isSelected ? "Remove from Selection" : "Add to Selection"}
+                onAction={() => toggleTableSelection(key)}
+              />
+              {entry.dbml && (
+                <Action.CopyToClipboard
+                  title="Copy DBML"
+                  content={withEnumsDbml(cache, entry.enums ?? [], entry.dbml)}
+                />
+              )}
+              {partitionCount > 0 && (
+                <Action
+                  title={expandedParents.has(key) ? "Hide Partitions" : "Show Partitions"}
+                  onAction={() => togglePartitions(key)}
+                />
+              )}
+              <Action.CopyToClipboard title={`Copy Full Schema (${copyItems.length} Tables)`} content={fullSchemaDdl} />
+              {fullSchemaDbmlCount > 0 && (
+                <Action.CopyToClipboard
+                  title={`Copy Full Schema DBML (${fullSchemaDbmlCount} Tables)`}
+                  content={fullSchemaDbml}
+                />
+              )}
+              {selectedOrderedKeys.length > 0 && (
+                <>
+                  <Action.CopyToClipboard
+                    title={`Copy Combined DDL (${selectedOrderedKeys.length} Tables)`}
+                    content={combinedDdl}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "enter" }}
+                    onCopy={clearSelection}
+                  />
+                  {selectedDbmlCount > 0 && (
+                    <Action.CopyToClipboard
+                      title={`Copy Combined DBML (${selectedDbmlCount} Tables)`}
+                      content={combinedDbml}
+                    />
+                  )}
+                  <Action title="Clear Selection" onAction={clearSelection} />
+                </>
+              )}
+              <Action title="Add Schema to Selection" onAction={() => addSchemaToSelection(schema)} />
+              <Action title="Remove Schema from Selection" onAction={() => removeSchemaFromSelection(schema)} />
+              <Action title="Refresh" onAction={refresh} />
+              <Action
+                title="Manage Databases"
+                onAction={() => launchCommand({ name: "manage-databases", type: LaunchType.UserInitiated })}
+              />
+              <Action
+                title="Sync Schema"
+                onAction={() => launchCommand({ name: "sync-schema", type: LaunchType.UserInitiated })}
+              />
+            </ActionPanel>
+          }
+        />
+      );
+    };
+
+    const renderEnumItem = (key: string, enumEntry: EnumCacheEntry) => {
+      const name = showTableNamesOnly && key.includes(".") ? key.split(".").slice(1).join(".") : key;
+      const usedBy =
+        enumEntry.usedBy.length > 0
+          ? `**Used by**\n\n${enumEntry.usedBy.map((column) => `- \`${column}\``).join("\n")}`
+          : "_Not used by any column._";
+      const markdown = `\`\`\`sql\n${enumEntry.ddl}\n\`\`\`\n\n${usedBy}`;
+      return (
+        <List.Item
+          key={`enum:${key}`}
+          title={name}
+          icon={{ value: Icon.List, tooltip: "Enum" }}
+          accessoryTitle={`${enumEntry.values.length} values`}
+          detail={<List.Item.Detail markdown={markdown} />}
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard title="Copy DDL" content={enumEntry.ddl} />
+              <Action.CopyToClipboard title="Copy Values" content={enumEntry.values.join(", ")} />
+              <Action.CopyToClipboard title={`Copy Full Schema (${copyItems.length} Tables)`} content={fullSchemaDdl} />
+              {fullSchemaDbmlCount > 0 && (
+                <Action.CopyToClipboard
+                  title={`Copy Full Schema DBML (${fullSchemaDbmlCount} Tables)`}
+                  content={fullSchemaDbml}
+                />
+              )}
+              <Action title="Refresh" onAction={refresh} />
+              <Action
+                title="Manage Databases"
+                onAction={() => launchCommand({ name: "manage-databases", type: LaunchType.UserInitiated })}
+              />
+              <Action
+                title="Sync Schema"
+                onAction={() => launchCommand({ name: "sync-schema", type: LaunchType.UserInitiated })}
+              />
+            </ActionPanel>
+          }
+        />
+      );
+    };
+
     return (
       <List
         isShowingDetail
@@ -328,7 +590,7 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
         filtering={true}
         actions={
           <ActionPanel>
-            <Action.CopyToClipboard title={`Copy Full Schema (${items.length} Tables)`} content={fullSchemaDdl} />
+            <Action.CopyToClipboard title={`Copy Full Schema (${copyItems.length} Tables)`} content={fullSchemaDdl} />
             {fullSchemaDbmlCount > 0 && (
               <Action.CopyToClipboard
                 title={`Copy Full Schema DBML (${fullSchemaDbmlCount} Tables)`}
@@ -365,71 +627,21 @@ export default function Command(props: LaunchProps<{ launchContext?: ExploreLaun
           </ActionPanel>
         }
       >
-        {sortedSchemas.map((schema) => (
+        {displaySchemas.map((schema) => (
           <List.Section key={schema} title={schema}>
-            {(bySchema.get(schema) ?? []).map(({ key, entry }) => {
-              const displayTitle = showTableNamesOnly && key.includes(".") ? key.split(".").slice(1).join(".") : key;
-              const isSelected = selectedTableKeys.has(key);
-              const markdown = `\`\`\`sql\n${entry.ddl}\n\`\`\``;
-              return (
-                <List.Item
-                  key={key}
-                  title={displayTitle}
-                  accessoryTitle={isSelected ? "✓ Selected" : undefined}
-                  detail={<List.Item.Detail markdown={markdown} />}
-                  actions={
-                    <ActionPanel>
-                      <Action.CopyToClipboard title="Copy DDL" content={entry.ddl} />
-                      <Action
-                        title={isSelected ? "Remove from Selection" : "Add to Selection"}
-                        onAction={() => toggleTableSelection(key)}
-                      />
-                      {entry.dbml && <Action.CopyToClipboard title="Copy DBML" content={entry.dbml} />}
-                      <Action.CopyToClipboard
-                        title={`Copy Full Schema (${items.length} Tables)`}
-                        content={fullSchemaDdl}
-                      />
-                      {fullSchemaDbmlCount > 0 && (
-                        <Action.CopyToClipboard
-                          title={`Copy Full Schema DBML (${fullSchemaDbmlCount} Tables)`}
-                          content={fullSchemaDbml}
-                        />
-                      )}
-                      {selectedOrderedKeys.length > 0 && (
-                        <>
-                          <Action.CopyToClipboard
-                            title={`Copy Combined DDL (${selectedOrderedKeys.length} Tables)`}
-                            content={combinedDdl}
-                            shortcut={{ modifiers: ["cmd", "shift"], key: "enter" }}
-                            onCopy={clearSelection}
-                          />
-                          {selectedDbmlCount > 0 && (
-                            <Action.CopyToClipboard
-                              title={`Copy Combined DBML (${selectedDbmlCount} Tables)`}
-                              content={combinedDbml}
-                            />
-                          )}
-                          <Action title="Clear Selection" onAction={clearSelection} />
-                        </>
-                      )}
-                      <Action title="Add Schema to Selection" onAction={() => addSchemaToSelection(schema)} />
-                      <Action title="Remove Schema from Selection" onAction={() => removeSchemaFromSelection(schema)} />
-                      <Action title="Refresh" onAction={refresh} />
-                      <Action
-                        title="Manage Databases"
-                        onAction={() => launchCommand({ name: "manage-databases", type: LaunchType.UserInitiated })}
-                      />
-                      <Action
-                        title="Sync Schema"
-                        onAction={() => launchCommand({ name: "sync-schema", type: LaunchType.UserInitiated })}
-                      />
-                    </ActionPanel>
-                  }
-                />
-              );
-            })}
+            {(displayBySchema.get(schema) ?? []).map(({ item, depth }) => renderItem(item, schema, depth))}
           </List.Section>
         ))}
+        {routineItems.length > 0 && (
+          <List.Section title="Functions & Procedures">
+            {routineItems.map((item) => renderItem(item, item.key.split(".")[0] ?? "public", 0))}
+          </List.Section>
+        )}
+        {enumItems.length > 0 && (
+          <List.Section title="Enums">
+            {enumItems.map(([key, enumEntry]) => renderEnumItem(key, enumEntry))}
+          </List.Section>
+        )}
       </List>
     );
   }
@@ -0,0 +1,30 @@
+import { resolveDuckdbSource } from "./duckdb-config";
+import { findDuckdbCli, openDuckdbCli } from "./duckdb-cli";
+import { fetchDuckdbSchemaData, registerFileSources, type DuckdbSchemaData } from "./duckdb-schema";
+import { buildDuckdbSchemaDdl } from "./ddl-builder-duckdb";
+import { buildDuckdbSchemaDbml } from "./dbml-builder-duckdb";
+import type { SchemaAdapter } from "./schema-adapter";
+
+export const duckdbAdapter: SchemaAdapter<DuckdbSchemaData> = {
+  type: "duckdb",
+  label: "DuckDB",
+  formTitle: "DuckDB / Parquet / CSV",
+  placeholder: "~/warehouse/analytics.duckdb or a folder of Parquet/CSV files",
+  localSource: { title: "Database file or folder" },
+  syncDescription: "Reading tables and views from DuckDB",
+  capabilities: { dbml: true },
+  validateConnectionString: (connectionString) =>
+    resolveDuckdbSource(connectionString) ? undefined : `DuckDB file or folder not found: ${connectionString.trim()}`,
+  async fetchSchemaData(connectionString) {
+    const source = resolveDuckdbSource(connectionString);
+    if (!source) throw new Error(`DuckDB file or folder not found: ${connectionString.trim()}`);
+    const cliPath = findDuckdbCli();
+    if (!cliPath) throw new Error("DuckDB CLI not found. Install it (e.g. `brew install duckdb`) and sync again.");
+    // Folder sources are read through an in-memory database with one view per data file.
+    const conn = openDuckdbCli(cliPath, source.kind === "database" ? source.path : null);
+    const fileSources = source.kind === "folder" ? await registerFileSources(conn, source.path) : undefined;
+    return fetchDuckdbSchemaData(conn, fileSources);
+  },
+  buildDdl: buildDuckdbSchemaDdl,
+  buildDbml: buildDuckdbSchemaDbml,
+};
@@ -0,0 +1,35 @@
+import { defaultMongoDatabases, fetchMongoSchema, listMongoDatabases, type MongoSchemaData } from "./mongo-schema";
+import { buildMongoSchemaDdl } from "./ddl-builder-mongo";
+import { buildMongoSchemaDbml } from "./dbml-builder-mongo";
+import { DEFAULT_MONGO_SAMPLE_SIZE } from "./databases";
+import type { SchemaAdapter } from "./schema-adapter";
+
+export const mongodbAdapter: SchemaAdapter<MongoSchemaData> = {
+  type: "mongodb",
+  label: "MongoDB",
+  formTitle: "MongoDB",
+  placeholder: "mongodb://localhost:27017/dbname or mongodb+srv://...",
+  syncDescription: "Fetching collections from MongoDB",
+  capabilities: {
+    dbml: true,
+    sampleSize: DEFAULT_MONGO_SAMPLE_SIZE,
+    databaseSelection: {
+      list: listMongoDatabases,
+      defaults: defaultMongoDatabases,
+      defaultsLabel: "From connection string, or all non-system",
+      formDescription:
+        "Collections are synced from each checked database and keyed database.collection. admin, local and config are left out unless you check them.",
+    },
+  },
+  validateConnectionString: (connectionString) =>
+    /^mongodb(\+srv)?:\/\//i.test(connectionString.trim())
+      ? undefined
+      : "MongoDB connection strings start with mongodb:// or mongodb+srv://",
+  fetchSchemaData: (connectionString, db) =>
+    fetchMongoSchema(connectionString, {
+      sampleSize: db.mongoSampleSize ?? DEFAULT_MONGO_SAMPLE_SIZE,
+      databases: db.mongoDatabases,
+    }),
+  buildDdl: buildMongoSchemaDdl,
+  buildDbml: buildMongoSchemaDbml,
+};
@@ -0,0 +1,46 @@
+import fs from "fs";
+import {
+  getSchemaFileModifiedAt,
+  listMigrationFiles,
+  readMigrationFile,
+  resolveSchemaFileSource,
+} from "./schema-file-config";
+import { buildSqlFileSchemaDdl, parseSqlSchema, type SqlFileSchemaData } from "./sql-file-schema";
+import { convertPrismaSchemaToSql } from "./prisma-schema";
+import type { SchemaAdapter } from "./schema-adapter";
+
+export const schemaFileAdapter: SchemaAdapter<SqlFileSchemaData> = {
+  type: "schemafile",
+  label: "Schema file",
+  formTitle: "Schema File (SQL / Prisma / migrations)",
+  placeholder: "~/code/app/db/schema.sql, prisma/schema.prisma or a migrations folder",
+  localSource: { title: "Schema file or folder" },
+  syncDescription: "Parsing schema file",
+  capabilities: { dbml: false },
+  validateConnectionString: (connectionString) =>
+    resolveSchemaFileSource(connectionString)
+      ? undefined
+      : `Schema file or folder not found: ${connectionString.trim()}`,
+  async fetchSchemaData(connectionString) {
+    const source = resolveSchemaFileSource(connectionString);
+    if (!source) throw new Error(`Schema file or folder not found: ${connectionString.trim()}`);
+    if (source.kind === "prisma") {
+      return parseSqlSchema(convertPrismaSchemaToSql(fs.readFileSync(source.path, "utf-8")));
+    }
+    if (source.kind === "migrations") {
+      const files = listMigrationFiles(source.path);
+      if (files.length === 0) throw new Error(`No .sql migration files in ${source.path}`);
+      // Each file ends its last statement, so joining with ";" keeps a missing trailing semicolon harmless.
+      return parseSqlSchema(files.map(readMigrationFile).join("\n;\n"));
+    }
+    return parseSqlSchema(fs.readFileSync(source.path, "utf-8"));
+  },
+  buildDdl: buildSqlFileSchemaDdl,
+  syncStatus(db) {
+    if (!db.lastSyncedAt) return undefined;
+    const modifiedAt = getSchemaFileModifiedAt(db.connectionString);
+    return modifiedAt && modifiedAt.getTime() > new Date(db.lastSyncedAt).getTime()
+      ? "File changed since last sync"
+      : undefined;
+  },
+};
@@ -0,0 +1,49 @@
+import fs from "fs";
+import { hasSqliteFileChangedSince, resolveSqlitePath } from "./sqlite-config";
+import { fetchSqliteSchemaData, type SqliteSchemaData } from "./sqlite-schema";
+import { buildSqliteSchemaDdl } from "./ddl-builder-sqlite";
+import { buildSqliteSchemaDbml } from "./dbml-builder-sqlite";
+import type { SchemaAdapter } from "./schema-adapter";
+
+/**
+ * node:sqlite is loaded on first sync rather than at import time: the adapter registry is loaded by every
+ * command, and older runtimes have no such module.
+ */
+async function loadSqliteDriver(): Promise<typeof import("node:sqlite")> {
+  try {
+    return await import("node:sqlite");
+  } catch {
+    throw new Error(`SQLite requires Node ≥ 22.5 (node:sqlite is not available in Node ${process.versions.node})`);
+  }
+}
+
+export const sqliteAdapter: SchemaAdapter<SqliteSchemaData> = {
+  type: "sqlite",
+  label: "SQLite",
+  formTitle: "SQLite",
+  placeholder: "~/projects/app/data.sqlite",
+  localSource: { title: "Database file" },
+  syncDescription: "Reading tables and views from SQLite file",
+  capabilities: { dbml: true },
+  validateConnectionString(connectionString) {
+    const filePath = resolveSqlitePath(connectionString);
+    return fs.existsSync(filePath) ? undefined : `SQLite file not found: ${filePath}`;
+  },
+  async fetchSchemaData(connectionString) {
+    const { DatabaseSync } = await loadSqliteDriver();
+    const conn = new DatabaseSync(resolveSqlitePath(connectionString), { readOnly: true });
+    try {
+      return fetchSqliteSchemaData(conn);
+    } finally {
+      try {
+        conn.close();
+      } catch {
+        // ignore
+      }
+    }
+  },
+  buildDdl: buildSqliteSchemaDdl,
+  buildDbml: buildSqliteSchemaDbml,
+  syncStatus: (db) =>
+    hasSqliteFileChangedSince(db.connectionString, db.lastSyncedAt) ? "File changed since last sync" : undefined,
+};
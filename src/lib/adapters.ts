@@ -0,0 +1,32 @@
+import type { DatabaseType } from "./databases";
+import type { SchemaAdapter } from "./schema-adapter";
+import { postgresAdapter } from "./adapter-postgres";
+import { mongodbAdapter } from "./adapter-mongodb";
+import { mysqlAdapter } from "./adapter-mysql";
+import { sqliteAdapter } from "./adapter-sqlite";
+import { mssqlAdapter } from "./adapter-mssql";
+import { duckdbAdapter } from "./adapter-duckdb";
+import { clickhouseAdapter } from "./adapter-clickhouse";
+import { elasticsearchAdapter } from "./adapter-elasticsearch";
+import { schemaFileAdapter } from "./adapter-schema-file";
+
+/** Every supported engine, keyed by database type. */
+export const SCHEMA_ADAPTERS: Record<DatabaseType, SchemaAdapter> = {
+  postgres: postgresAdapter,
+  mongodb: mongodbAdapter,
+  mysql: mysqlAdapter,
+  sqlite: sqliteAdapter,
+  mssql: mssqlAdapter,
+  duckdb: duckdbAdapter,
+  clickhouse: clickhouseAdapter,
+  elasticsearch: elasticsearchAdapter,
+  schemafile: schemaFileAdapter,
+};
+
+/** Adapters in the order they are offered in the Add Database form. */
+export const SCHEMA_ADAPTER_LIST: SchemaAdapter[] = Object.values(SCHEMA_ADAPTERS);
+
+/** Databases saved before a type existed are Postgres. */
+export function getSchemaAdapter(type: DatabaseType | undefined): SchemaAdapter {
+  return (type && SCHEMA_ADAPTERS[type]) || postgresAdapter;
+}
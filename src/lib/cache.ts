@@ -6,18 +6,58 @@ const CACHE_FILENAME_PREFIX = "schema-";
 const CACHE_FILENAME_SUFFIX = ".json";
 const OLD_CACHE_FILENAME = "schema-cache.json";
 
+/** DDL sections kept apart from a table's main DDL so each can be toggled per database without re-syncing. */
+export type DdlExtraKind = "triggers" | "policies" | "grants";
+
 export type TableCacheEntry = {
   ddl: string;
   dbml?: string;
   schema?: string;
-  type: "table" | "view";
+  type: "table" | "view" | "materialized_view" | "foreign_table" | "function" | "procedure";
+  /** Body-less DDL for functions and procedures, used when a database copies signatures only. */
+  signature?: string;
+  /** Key of the partitioned table this entry is a partition of. */
+  parent?: string;
+  extras?: Partial<Record<DdlExtraKind, string>>;
+  /** Keys into SchemaCache.enums for the enum types its columns use; their CREATE TYPE is not part of ddl. */
+  enums?: string[];
+  /** Keys into SchemaCache.dependencies for the extensions, domains, types and sequences its columns use. */
+  dependencies?: string[];
+  /** Final columns for sources whose ddl replays later ALTER TABLE statements (schema files); read by Compare. */
+  columns?: { name: string; type: string }[];
+};
+
+export type EnumCacheEntry = {
+  /** CREATE TYPE ... AS ENUM statement. */
+  ddl: string;
+  /** DBML Enum block, for sources that generate DBML; not part of any table's dbml. */
+  dbml?: string;
+  schema?: string;
+  values: string[];
+  /** Columns using the enum, as "schema.table.column". */
+  usedBy: string[];
+};
+
+export type DependencyKind = "extension" | "domain" | "type" | "sequence";
+
+/** An object table DDL relies on, e.g. CREATE EXTENSION citext or CREATE SEQUENCE order_no_seq. */
+export type DependencyCacheEntry = {
+  kind: DependencyKind;
+  ddl: string;
 };
 
 export type SchemaCache = {
   tables: Record<string, TableCacheEntry>;
-  enums?: string;
+  /** Enum types keyed by schema.name, emitted once ahead of the tables that use them. */
+  enums?: Record<string, EnumCacheEntry>;
+  /** Dependency objects keyed "kind:name" (e.g. "domain:public.email"), emitted once like enums. */
+  dependencies?: Record<string, DependencyCacheEntry>;
 };
 
+export function isRoutine(entry: TableCacheEntry): boolean {
+  return entry.type === "function" || entry.type === "procedure";
+}
+
 export function getCachePath(dbId: string): string {
   return path.join(environment.supportPath, `${CACHE_FILENAME_PREFIX}${dbId}${CACHE_FILENAME_SUFFIX}`);
 }
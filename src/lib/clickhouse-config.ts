@@ -0,0 +1,34 @@
+/**
+ * Parse a ClickHouse connection URL into config for the HTTP interface.
+ * Supports clickhouse:// (HTTP, or HTTPS with ?secure=true or port 8443) and plain http:// / https:// URLs.
+ */
+export type ClickhouseConnectionConfig = {
+  url: string;
+  user: string;
+  password: string;
+  database: string;
+  requestTimeout: number;
+};
+
+export function parseClickhouseConnectionConfig(connectionString: string): ClickhouseConnectionConfig {
+  let urlString = connectionString.trim();
+  if (!urlString.includes("://")) {
+    urlString = `clickhouse://${urlString}`;
+  }
+  const url = new URL(urlString);
+  let protocol = url.protocol;
+  if (protocol === "clickhouse:") {
+    const secure = url.searchParams.get("secure")?.toLowerCase() === "true" || url.port === "8443";
+    protocol = secure ? "https:" : "http:";
+  }
+  const defaultPort = protocol === "https:" ? 8443 : 8123;
+  const port = url.port ? parseInt(url.port, 10) : defaultPort;
+  const database = url.pathname ? url.pathname.slice(1).replace(/\/$/, "") : "";
+  return {
+    url: `${protocol}//${url.hostname || "localhost"}:${Number.isFinite(port) ? port : defaultPort}/`,
+    user: url.username ? decodeURIComponent(url.username) : "default",
+    password: url.password ? decodeURIComponent(url.password) : "",
+    database: database ? decodeURIComponent(database) : "",
+    requestTimeout: 10000,
+  };
+}
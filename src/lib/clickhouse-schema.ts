@@ -0,0 +1,106 @@
+import type { ClickhouseConnectionConfig } from "./clickhouse-config";
+
+/**
+ * Minimal connection surface used for catalog queries: run a SELECT and return its rows.
+ * Implemented over the HTTP interface by createClickhouseHttpConnection.
+ */
+export interface ClickhouseConnection {
+  query(sql: string): Promise<unknown[]>;
+}
+
+export type ClickhouseTableRow = {
+  database: string;
+  name: string;
+  engine: string;
+  engine_full: string;
+  create_table_query: string;
+  as_select: string;
+  comment: string;
+};
+
+export type ClickhouseColumnRow = {
+  database: string;
+  table: string;
+  name: string;
+  type: string;
+  position: number;
+  default_kind: string;
+  default_expression: string;
+  compression_codec: string;
+  comment: string;
+};
+
+export type ClickhouseSchemaData = {
+  tables: ClickhouseTableRow[];
+  columns: ClickhouseColumnRow[];
+};
+
+const SYSTEM_DATABASES = "'system', 'INFORMATION_SCHEMA', 'information_schema'";
+
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function databaseFilter(database: string): string {
+  return database ? `database = ${quoteSqlString(database)}` : `database NOT IN (${SYSTEM_DATABASES})`;
+}
+
+// Inner storage tables of materialized views (.inner. / .inner_id.) are implementation details.
+function tablesQuery(database: string): string {
+  return `
+    SELECT database, name, engine, engine_full, create_table_query, as_select, comment
+    FROM system.tables
+    WHERE ${databaseFilter(database)}
+      AND is_temporary = 0
+      AND NOT startsWith(name, '.inner')
+    ORDER BY database, name
+  `;
+}
+
+function columnsQuery(database: string): string {
+  return `
+    SELECT database, table, name, type, position, default_kind, default_expression, compression_codec, comment
+    FROM system.columns
+    WHERE ${databaseFilter(database)}
+      AND NOT startsWith(table, '.inner')
+    ORDER BY database, table, position
+  `;
+}
+
+/** Query ClickHouse over HTTP with JSON output. Credentials go in headers so they never appear in URLs. */
+export function createClickhouseHttpConnection(config: ClickhouseConnectionConfig): ClickhouseConnection {
+  return {
+    async query(sql: string): Promise<unknown[]> {
+      const url = new URL(config.url);
+      url.searchParams.set("default_format", "JSON");
+      url.searchParams.set("output_format_json_quote_64bit_integers", "0");
+      if (config.database) url.searchParams.set("database", config.database);
+      const res = await fetch(url, {
+        method: "POST",
+        body: sql,
+        headers: {
+          "X-ClickHouse-User": config.user,
+          "X-ClickHouse-Key": config.password,
+        },
+        signal: AbortSignal.timeout(config.requestTimeout),
+      });
+      if (!res.ok) {
+        const text = (await res.text()).trim();
+        throw new Error(text || `ClickHouse HTTP ${res.status}`);
+      }
+      const body = (await res.json()) as { data?: unknown[] };
+      return Array.isArray(body.data) ? body.data : [];
+    },
+  };
+}
+
+export async function fetchClickhouseSchemaData(
+  conn: ClickhouseConnection,
+  database = "",
+): Promise<ClickhouseSchemaData> {
+  const [tables, columns] = await Promise.all([conn.query(tablesQuery(database)), conn.query(columnsQuery(database))]);
+  return {
+    tables: tables as ClickhouseTableRow[],
+    columns: columns as ClickhouseColumnRow[],
+  };
+}
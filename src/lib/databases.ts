@@ -1,24 +1,53 @@
 import { environment, getPreferenceValues, LocalStorage } from "@raycast/api";
 import fs from "fs";
 import path from "path";
-import { getLegacyCachePath } from "./cache";
+import { getLegacyCachePath, type DdlExtraKind } from "./cache";
+import type { PgDialect } from "./pg-dialect";
 
 const REGISTRY_FILENAME = "registry.json";
 const LEGACY_STORAGE_KEY_CONNECTION = "connectionString";
 
-export type DatabaseType = "postgres" | "mongodb";
+export type DatabaseType =
+  "postgres" | "mongodb" | "mysql" | "sqlite" | "mssql" | "duckdb" | "clickhouse" | "elasticsearch" | "schemafile";
 
 export type StoredDatabase = {
   id: string;
   name: string;
   type: DatabaseType;
+  /** Connection URL, or the local file/folder path for SQLite, DuckDB and schema files. */
   connectionString: string;
   lastSyncedAt?: string;
+  /** Postgres-compatible engine detected on the last sync (Postgres databases only). */
+  dialect?: PgDialect;
   isDefault?: boolean;
   /** When true, Explore Tables shows only table names (e.g. YT_CHANNELS) instead of schema.table (e.g. public.YT_CHANNELS). Default false. */
   showTableNamesOnly?: boolean;
+  /** When true, partitions are left out of Full Schema, combined and bulk-selection copies; their parent still lists them. Default false. */
+  hidePartitionsFromCopies?: boolean;
+  /** When true, functions and procedures are shown and copied as signatures without their bodies. Default false. */
+  functionSignaturesOnly?: boolean;
+  /** Which optional DDL sections Explore Tables appends to each table; unset kinds use DEFAULT_DDL_EXTRAS. */
+  ddlExtras?: Partial<Record<DdlExtraKind, boolean>>;
+  /** Documents sampled per collection to infer fields (MongoDB only); unset uses DEFAULT_MONGO_SAMPLE_SIZE. */
+  mongoSampleSize?: number;
+  /** MongoDB databases to sync; unset syncs the one in the connection string, or every non-system database. */
+  mongoDatabases?: string[];
 };
 
+/** Triggers and policies explain behaviour and are on by default; grants are noisy on hosted Postgres and are off. */
+export const DEFAULT_DDL_EXTRAS: Record<DdlExtraKind, boolean> = {
+  triggers: true,
+  policies: true,
+  grants: false,
+};
+
+export function isDdlExtraEnabled(db: StoredDatabase, kind: DdlExtraKind): boolean {
+  return db.ddlExtras?.[kind] ?? DEFAULT_DDL_EXTRAS[kind];
+}
+
+/** Enough documents to catch optional fields without making syncs of many collections slow. */
+export const DEFAULT_MONGO_SAMPLE_SIZE = 100;
+
 export type DatabaseRegistry = {
   databases: StoredDatabase[];
   defaultId: string | null;
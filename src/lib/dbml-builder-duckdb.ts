@@ -0,0 +1,104 @@
+import type { DuckdbSchemaData, DuckdbTableRow, DuckdbColumnRow, DuckdbConstraintRow } from "./duckdb-schema";
+
+function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Nested types (e.g. `VARCHAR[]`, `STRUCT(...)`, `MAP(...)`) are quoted so DBML can parse them. */
+function formatDbmlType(col: DuckdbColumnRow): string {
+  const type = col.data_type.trim();
+  if (/^[a-z_][a-z0-9_]*(\(\d+(,\s*\d+)?\))?$/i.test(type)) return type;
+  return `"${type.replace(/"/g, '\\"')}"`;
+}
+
+function qualifiedTable(schema: string, table: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+}
+
+function columnsExpr(columns: string[]): string {
+  if (columns.length === 1) return quoteIdentifier(columns[0] ?? "");
+  return `(${columns.map((col) => quoteIdentifier(col)).join(", ")})`;
+}
+
+function buildTableDbml(
+  table: DuckdbTableRow,
+  columns: DuckdbColumnRow[],
+  constraints: DuckdbConstraintRow[],
+  sourceFile: string | undefined,
+): string {
+  const tableColumns = columns
+    .filter((col) => col.table_schema === table.table_schema && col.table_name === table.table_name)
+    .sort((a, b) => Number(a.ordinal_position) - Number(b.ordinal_position));
+
+  const tableConstraints = constraints.filter(
+    (c) => c.schema_name === table.table_schema && c.table_name === table.table_name,
+  );
+  const pkColumns = tableConstraints.find((c) => c.constraint_type === "PRIMARY KEY")?.constraint_column_names ?? [];
+  const pkColumnSet = new Set(pkColumns);
+
+  const singleUniqueColumns = new Set<string>();
+  const multiUniqueGroups: string[][] = [];
+  for (const unique of tableConstraints.filter((c) => c.constraint_type === "UNIQUE")) {
+    if (unique.constraint_column_names.length === 1) {
+      singleUniqueColumns.add(unique.constraint_column_names[0] ?? "");
+      continue;
+    }
+    multiUniqueGroups.push(unique.constraint_column_names);
+  }
+
+  const columnLines: string[] = [];
+  for (const col of tableColumns) {
+    const settings: string[] = [];
+    if (pkColumns.length === 1 && pkColumnSet.has(col.column_name)) settings.push("pk");
+    if (singleUniqueColumns.has(col.column_name)) settings.push("unique");
+    if (col.is_nullable !== "YES") settings.push("not null");
+    if (col.column_default != null && col.column_default.trim() !== "") {
+      settings.push(`default: \`${col.column_default.replace(/`/g, "\\`")}\``);
+    }
+
+    const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+    columnLines.push(`  ${quoteIdentifier(col.column_name)} ${formatDbmlType(col)}${settingsStr}`);
+  }
+
+  const indexLines: string[] = [];
+  if (pkColumns.length > 1) {
+    indexLines.push(`    ${columnsExpr(pkColumns)} [pk]`);
+  }
+  for (const uniqueCols of multiUniqueGroups) {
+    indexLines.push(`    ${columnsExpr(uniqueCols)} [unique]`);
+  }
+
+  if (indexLines.length > 0) {
+    columnLines.push("  Indexes {");
+    columnLines.push(...indexLines);
+    columnLines.push("  }");
+  }
+
+  if (sourceFile) {
+    columnLines.unshift(`  // Source file: ${sourceFile}`);
+  } else if (table.table_type === "VIEW") {
+    columnLines.unshift("  // Source object is a view");
+  }
+
+  const tableBlock = `Table ${qualifiedTable(table.table_schema, table.table_name)} {\n${columnLines.join("\n")}\n}`;
+
+  // duckdb_constraints() reports the referenced table without its schema; DuckDB FKs cannot cross schemas.
+  const refs = tableConstraints
+    .filter((c) => c.constraint_type === "FOREIGN KEY" && c.referenced_table)
+    .map(
+      (fk) =>
+        `Ref: ${qualifiedTable(table.table_schema, table.table_name)}.${columnsExpr(fk.constraint_column_names)} > ${qualifiedTable(table.table_schema, fk.referenced_table ?? "")}.${columnsExpr(fk.referenced_column_names ?? [])}`,
+    );
+
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
+}
+
+export function buildDuckdbSchemaDbml(data: DuckdbSchemaData): Map<string, string> {
+  const tableDbmls = new Map<string, string>();
+  for (const table of data.tables) {
+    const key = `${table.table_schema}.${table.table_name}`;
+    tableDbmls.set(key, buildTableDbml(table, data.columns, data.constraints, data.fileSources.get(table.table_name)));
+  }
+  return tableDbmls;
+}
@@ -0,0 +1,117 @@
+import type { Document } from "mongodb";
+import {
+  buildMongoFieldModel,
+  type MongoCollectionInfo,
+  type MongoField,
+  type MongoInferredReference,
+  type MongoSchemaData,
+  REFERENCE_LOOKUP_BUDGET_MS,
+} from "./mongo-schema";
+import { formatDbmlNote } from "./dbml-builder";
+
+export function quoteDbmlName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * DBML Ref for an inferred reference, with its evidence as a comment. Ids inside arrays
+ * (tagIds[], items[].productId) make the relationship many-to-many.
+ */
+export function formatInferredRef(database: string, collection: string, ref: MongoInferredReference): string {
+  const from = [database, collection, ref.path].map(quoteDbmlName).join(".");
+  const to = [database, ref.collection, "_id"].map(quoteDbmlName).join(".");
+  const evidence = [
+    `${ref.matchedValues}/${ref.checkedValues} sampled values found`,
+    ref.nameMatch ? "name matches" : undefined,
+  ].filter(Boolean);
+  const relation = ref.path.includes("[]") ? "<>" : ">";
+  return `Ref: ${from} ${relation} ${to} // inferred, confidence ${ref.confidence.toFixed(2)}: ${evidence.join(", ")}`;
+}
+
+/** Note for id-like paths whose reference lookups were cut off by the per-database time budget. */
+export function formatUncheckedReferences(paths: string[]): string {
+  const budget = `${REFERENCE_LOOKUP_BUDGET_MS / 1000} s`;
+  return `references not checked against every collection (${budget} lookup budget ran out): ${paths.join(", ")}`;
+}
+
+/** Declared types win over sampled ones; null is dropped when the field also has a real type. Unions are quoted. */
+function formatDbmlType(field: MongoField): string {
+  const sampled = Object.entries(field.sampledTypes)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([type]) => type);
+  const types = field.declaredTypes ?? sampled;
+  const nonNull = types.filter((type) => type !== "null");
+  const type = (nonNull.length > 0 ? nonNull : types).join("|") || "unknown";
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(type) ? type : `"${type}"`;
+}
+
+function formatNote(field: MongoField): string | undefined {
+  const parts: string[] = [];
+  if (field.description) parts.push(field.description);
+  if (field.enumValues) parts.push(`enum: ${field.enumValues.map((v) => JSON.stringify(v)).join(", ")}`);
+  if (field.count === 0 && field.mismatches.length === 0) parts.push("declared in $jsonSchema, not sampled");
+  parts.push(...field.mismatches.map((m) => `mismatch: ${m}`));
+  if (parts.length === 0) return undefined;
+  return formatDbmlNote(parts.join("; "));
+}
+
+function buildCollectionDbml(collection: MongoCollectionInfo): string | undefined {
+  const fields = buildMongoFieldModel(collection);
+  if (fields.length === 0) return undefined;
+
+  const singleUniqueFields = new Set<string>();
+  const indexLines: string[] = [];
+  for (const idx of collection.indexes) {
+    const keys = Object.keys((idx.key as Document | undefined) ?? {});
+    // _id is the pk; text indexes key on internal _fts/_ftsx fields rather than document paths.
+    if (keys.length === 0 || idx.name === "_id_" || keys.includes("_fts")) continue;
+    if (keys.length === 1 && idx.unique && !idx.partialFilterExpression) {
+      singleUniqueFields.add(keys[0] ?? "");
+      continue;
+    }
+    const columns = keys.length === 1 ? quoteDbmlName(keys[0] ?? "") : `(${keys.map(quoteDbmlName).join(", ")})`;
+    const settings = [
+      idx.unique ? "unique" : undefined,
+      idx.name ? `name: ${formatDbmlNote(String(idx.name))}` : undefined,
+    ].filter(Boolean);
+    indexLines.push(`    ${columns}${settings.length > 0 ? ` [${settings.join(", ")}]` : ""}`);
+  }
+
+  const lines: string[] = [];
+  if (collection.type === "view") {
+    lines.push(`  // Source object is a view on ${collection.options.viewOn ?? "an unknown collection"}`);
+  }
+  for (const field of fields) {
+    const settings: string[] = [];
+    if (field.path === "_id") settings.push("pk");
+    if (singleUniqueFields.has(field.path)) settings.push("unique");
+    if (field.required) settings.push("not null");
+    const note = formatNote(field);
+    if (note) settings.push(`note: ${note}`);
+    const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+    lines.push(`  ${quoteDbmlName(field.path)} ${formatDbmlType(field)}${settingsStr}`);
+  }
+  if (indexLines.length > 0) {
+    lines.push("  Indexes {");
+    lines.push(...indexLines);
+    lines.push("  }");
+  }
+
+  const table = `${quoteDbmlName(collection.database)}.${quoteDbmlName(collection.name)}`;
+  const tableBlock = `Table ${table} {\n${lines.join("\n")}\n}`;
+  const refs = collection.references.map((ref) => formatInferredRef(collection.database, collection.name, ref));
+  if (collection.uncheckedReferencePaths.length > 0) {
+    refs.push(`// ${formatUncheckedReferences(collection.uncheckedReferencePaths)}`);
+  }
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
+}
+
+/** DBML Table blocks from the merged $jsonSchema + sample field model, with inferred references as Refs. */
+export function buildMongoSchemaDbml(data: MongoSchemaData): Map<string, string> {
+  const tableDbmls = new Map<string, string>();
+  for (const collection of data.collections) {
+    const dbml = buildCollectionDbml(collection);
+    if (dbml) tableDbmls.set(`${collection.database}.${collection.name}`, dbml);
+  }
+  return tableDbmls;
+}
@@ -0,0 +1,129 @@
+import type { MssqlSchemaData, MssqlTableRow, MssqlColumnRow, MssqlForeignKeyRow, MssqlIndexRow } from "./mssql-schema";
+import { formatMssqlType } from "./ddl-builder-mssql";
+
+function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function formatDbmlType(col: MssqlColumnRow): string {
+  const type = formatMssqlType(col);
+  if (/^[a-z_][a-z0-9_]*(\(\d+(,\s*\d+)?\))?$/i.test(type)) return type;
+  return `"${type}"`;
+}
+
+function qualifiedTable(schema: string, table: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+}
+
+function columnsExpr(columns: string[]): string {
+  if (columns.length === 1) return quoteIdentifier(columns[0] ?? "");
+  return `(${columns.map((col) => quoteIdentifier(col)).join(", ")})`;
+}
+
+function buildTableDbml(
+  table: MssqlTableRow,
+  columns: MssqlColumnRow[],
+  foreignKeys: MssqlForeignKeyRow[],
+  indexes: MssqlIndexRow[],
+): string {
+  const tableColumns = columns
+    .filter((col) => col.schema_name === table.schema_name && col.table_name === table.table_name)
+    .sort((a, b) => a.column_id - b.column_id);
+
+  const keyColumnsByIndex = new Map<string, { rows: MssqlIndexRow[]; first: MssqlIndexRow }>();
+  for (const index of indexes.filter(
+    (i) =>
+      i.schema_name === table.schema_name &&
+      i.table_name === table.table_name &&
+      !i.is_included_column &&
+      (i.is_primary_key || i.is_unique_constraint),
+  )) {
+    const entry = keyColumnsByIndex.get(index.index_name) ?? { rows: [], first: index };
+    entry.rows.push(index);
+    keyColumnsByIndex.set(index.index_name, entry);
+  }
+
+  let pkColumns: string[] = [];
+  const singleUniqueColumns = new Set<string>();
+  const multiUniqueGroups: string[][] = [];
+  for (const { rows, first } of keyColumnsByIndex.values()) {
+    const cols = rows.sort((a, b) => a.key_ordinal - b.key_ordinal).map((r) => r.column_name);
+    if (first.is_primary_key) {
+      pkColumns = cols;
+    } else if (cols.length === 1) {
+      singleUniqueColumns.add(cols[0] ?? "");
+    } else {
+      multiUniqueGroups.push(cols);
+    }
+  }
+  const pkColumnSet = new Set(pkColumns);
+
+  const fkByConstraint = new Map<string, MssqlForeignKeyRow[]>();
+  for (const fk of foreignKeys.filter(
+    (f) => f.schema_name === table.schema_name && f.table_name === table.table_name,
+  )) {
+    const list = fkByConstraint.get(fk.constraint_name) ?? [];
+    list.push(fk);
+    fkByConstraint.set(fk.constraint_name, list);
+  }
+  for (const list of fkByConstraint.values()) {
+    list.sort((a, b) => a.ordinal_position - b.ordinal_position);
+  }
+
+  const columnLines: string[] = [];
+  for (const col of tableColumns) {
+    const settings: string[] = [];
+    if (pkColumns.length === 1 && pkColumnSet.has(col.column_name)) settings.push("pk");
+    if (col.is_identity) settings.push("increment");
+    if (singleUniqueColumns.has(col.column_name)) settings.push("unique");
+    if (!col.is_nullable) settings.push("not null");
+    if (col.default_definition != null && col.default_definition.trim() !== "") {
+      settings.push(`default: \`${col.default_definition.replace(/`/g, "\\`")}\``);
+    }
+    if (col.computed_definition != null) {
+      settings.push(`note: 'computed: ${col.computed_definition.replace(/'/g, "\\'")}'`);
+    }
+
+    const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+    columnLines.push(`  ${quoteIdentifier(col.column_name)} ${formatDbmlType(col)}${settingsStr}`);
+  }
+
+  const indexLines: string[] = [];
+  if (pkColumns.length > 1) {
+    indexLines.push(`    ${columnsExpr(pkColumns)} [pk]`);
+  }
+  for (const uniqueCols of multiUniqueGroups) {
+    indexLines.push(`    ${columnsExpr(uniqueCols)} [unique]`);
+  }
+
+  if (indexLines.length > 0) {
+    columnLines.push("  Indexes {");
+    columnLines.push(...indexLines);
+    columnLines.push("  }");
+  }
+
+  if (table.object_type === "view") {
+    columnLines.unshift("  // Source object is a view");
+  }
+
+  const tableBlock = `Table ${qualifiedTable(table.schema_name, table.table_name)} {\n${columnLines.join("\n")}\n}`;
+
+  const refs = Array.from(fkByConstraint.values()).map((rows) => {
+    const first = rows[0]!;
+    const sourceCols = rows.map((row) => row.column_name);
+    const targetCols = rows.map((row) => row.ref_column_name);
+    return `Ref: ${qualifiedTable(first.schema_name, first.table_name)}.${columnsExpr(sourceCols)} > ${qualifiedTable(first.ref_schema_name, first.ref_table_name)}.${columnsExpr(targetCols)}`;
+  });
+
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
+}
+
+export function buildMssqlSchemaDbml(data: MssqlSchemaData): Map<string, string> {
+  const tableDbmls = new Map<string, string>();
+  for (const table of data.tables) {
+    const key = `${table.schema_name}.${table.table_name}`;
+    tableDbmls.set(key, buildTableDbml(table, data.columns, data.foreignKeys, data.indexes));
+  }
+  return tableDbmls;
+}
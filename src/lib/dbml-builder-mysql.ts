@@ -0,0 +1,149 @@
+import type {
+  MysqlSchemaData,
+  MysqlTableRow,
+  MysqlColumnRow,
+  MysqlPrimaryKeyRow,
+  MysqlUniqueRow,
+  MysqlForeignKeyRow,
+} from "./mysql-schema";
+import { formatDbmlNote } from "./dbml-builder";
+import { mysqlTableComment } from "./ddl-builder-mysql";
+
+function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** COLUMN_TYPE is used as-is; types DBML cannot parse bare (e.g. `int unsigned`, `enum(...)`) are quoted. */
+function formatDbmlType(col: MysqlColumnRow): string {
+  const type = col.COLUMN_TYPE.trim();
+  if (/^[a-z_][a-z0-9_]*(\(\d+(,\s*\d+)?\))?$/i.test(type)) return type;
+  return `"${type.replace(/"/g, '\\"')}"`;
+}
+
+/** MySQL treats RESTRICT and NO ACTION the same, so only the other actions are spelled out. */
+function refSettings(fk: MysqlForeignKeyRow): string {
+  const settings: string[] = [];
+  const isDefault = (rule: string) => !rule || rule === "NO ACTION" || rule === "RESTRICT";
+  if (!isDefault(fk.DELETE_RULE)) settings.push(`delete: ${fk.DELETE_RULE.toLowerCase()}`);
+  if (!isDefault(fk.UPDATE_RULE)) settings.push(`update: ${fk.UPDATE_RULE.toLowerCase()}`);
+  return settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+}
+
+function qualifiedTable(schema: string, table: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+}
+
+function columnsExpr(columns: string[]): string {
+  if (columns.length === 1) return quoteIdentifier(columns[0] ?? "");
+  return `(${columns.map((col) => quoteIdentifier(col)).join(", ")})`;
+}
+
+function buildTableDbml(
+  table: MysqlTableRow,
+  columns: MysqlColumnRow[],
+  primaryKeys: MysqlPrimaryKeyRow[],
+  uniques: MysqlUniqueRow[],
+  foreignKeys: MysqlForeignKeyRow[],
+): string {
+  const tableColumns = columns
+    .filter((col) => col.TABLE_SCHEMA === table.TABLE_SCHEMA && col.TABLE_NAME === table.TABLE_NAME)
+    .sort((a, b) => a.ORDINAL_POSITION - b.ORDINAL_POSITION);
+
+  const pkColumns = primaryKeys
+    .filter((pk) => pk.TABLE_SCHEMA === table.TABLE_SCHEMA && pk.TABLE_NAME === table.TABLE_NAME)
+    .sort((a, b) => a.ORDINAL_POSITION - b.ORDINAL_POSITION)
+    .map((pk) => pk.COLUMN_NAME);
+  const pkColumnSet = new Set(pkColumns);
+
+  const uniqueGroups = new Map<string, { COLUMN_NAME: string; ORDINAL_POSITION: number }[]>();
+  for (const unique of uniques.filter(
+    (u) => u.TABLE_SCHEMA === table.TABLE_SCHEMA && u.TABLE_NAME === table.TABLE_NAME,
+  )) {
+    const list = uniqueGroups.get(unique.CONSTRAINT_NAME) ?? [];
+    list.push({ COLUMN_NAME: unique.COLUMN_NAME, ORDINAL_POSITION: unique.ORDINAL_POSITION });
+    uniqueGroups.set(unique.CONSTRAINT_NAME, list);
+  }
+  for (const group of uniqueGroups.values()) {
+    group.sort((a, b) => a.ORDINAL_POSITION - b.ORDINAL_POSITION);
+  }
+
+  const singleUniqueColumns = new Set<string>();
+  const multiUniqueGroups: string[][] = [];
+  for (const group of uniqueGroups.values()) {
+    if (group.length === 1) {
+      singleUniqueColumns.add(group[0]?.COLUMN_NAME ?? "");
+      continue;
+    }
+    multiUniqueGroups.push(group.map((item) => item.COLUMN_NAME));
+  }
+
+  const fkByConstraint = new Map<string, MysqlForeignKeyRow[]>();
+  for (const fk of foreignKeys.filter(
+    (f) => f.TABLE_SCHEMA === table.TABLE_SCHEMA && f.TABLE_NAME === table.TABLE_NAME,
+  )) {
+    const list = fkByConstraint.get(fk.CONSTRAINT_NAME) ?? [];
+    list.push(fk);
+    fkByConstraint.set(fk.CONSTRAINT_NAME, list);
+  }
+  for (const list of fkByConstraint.values()) {
+    list.sort((a, b) => a.ORDINAL_POSITION - b.ORDINAL_POSITION);
+  }
+
+  const columnLines: string[] = [];
+  for (const col of tableColumns) {
+    const settings: string[] = [];
+    if (pkColumns.length === 1 && pkColumnSet.has(col.COLUMN_NAME)) settings.push("pk");
+    if (singleUniqueColumns.has(col.COLUMN_NAME)) settings.push("unique");
+    if (col.IS_NULLABLE !== "YES") settings.push("not null");
+    if (col.COLUMN_DEFAULT != null && col.COLUMN_DEFAULT.trim() !== "" && col.COLUMN_DEFAULT.toUpperCase() !== "NULL") {
+      settings.push(`default: \`${col.COLUMN_DEFAULT.replace(/`/g, "\\`")}\``);
+    }
+    if (col.COLUMN_COMMENT) settings.push(`note: ${formatDbmlNote(col.COLUMN_COMMENT)}`);
+
+    const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+    columnLines.push(`  ${quoteIdentifier(col.COLUMN_NAME)} ${formatDbmlType(col)}${settingsStr}`);
+  }
+
+  const indexLines: string[] = [];
+  if (pkColumns.length > 1) {
+    indexLines.push(`    ${columnsExpr(pkColumns)} [pk]`);
+  }
+  for (const uniqueCols of multiUniqueGroups) {
+    indexLines.push(`    ${columnsExpr(uniqueCols)} [unique]`);
+  }
+
+  if (indexLines.length > 0) {
+    columnLines.push("  Indexes {");
+    columnLines.push(...indexLines);
+    columnLines.push("  }");
+  }
+
+  if (table.TABLE_TYPE === "VIEW") {
+    columnLines.unshift("  // Source object is a view");
+  }
+  const tableComment = mysqlTableComment(table);
+  if (tableComment) {
+    columnLines.push("", `  Note: ${formatDbmlNote(tableComment)}`);
+  }
+
+  const tableBlock = `Table ${qualifiedTable(table.TABLE_SCHEMA, table.TABLE_NAME)} {\n${columnLines.join("\n")}\n}`;
+
+  const refs = Array.from(fkByConstraint.values()).map((rows) => {
+    const first = rows[0]!;
+    const sourceCols = rows.map((row) => row.COLUMN_NAME);
+    const targetCols = rows.map((row) => row.REFERENCED_COLUMN_NAME);
+    return `Ref: ${qualifiedTable(first.TABLE_SCHEMA, first.TABLE_NAME)}.${columnsExpr(sourceCols)} > ${qualifiedTable(first.REFERENCED_TABLE_SCHEMA, first.REFERENCED_TABLE_NAME)}.${columnsExpr(targetCols)}${refSettings(first)}`;
+  });
+
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
+}
+
+export function buildMysqlSchemaDbml(data: MysqlSchemaData): Map<string, string> {
+  const tableDbmls = new Map<string, string>();
+  for (const table of data.tables) {
+    const key = `${table.TABLE_SCHEMA}.${table.TABLE_NAME}`;
+    tableDbmls.set(key, buildTableDbml(table, data.columns, data.primaryKeys, data.uniques, data.foreignKeys));
+  }
+  return tableDbmls;
+}
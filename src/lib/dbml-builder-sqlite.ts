@@ -0,0 +1,140 @@
+import {
+  SQLITE_SCHEMA_NAME,
+  type SqliteSchemaData,
+  type SqliteObjectRow,
+  type SqliteColumnRow,
+  type SqliteForeignKeyRow,
+  type SqliteIndexRow,
+  type SqliteIndexColumnRow,
+} from "./sqlite-schema";
+
+function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Declared types are free-form in SQLite; columns without one have BLOB affinity. */
+function formatDbmlType(col: SqliteColumnRow): string {
+  const type = col.type.trim();
+  if (!type) return "blob";
+  if (/^[a-z_][a-z0-9_]*(\(\d+(,\s*\d+)?\))?$/i.test(type)) return type;
+  return `"${type.replace(/"/g, '\\"')}"`;
+}
+
+function qualifiedTable(table: string): string {
+  return `${quoteIdentifier(SQLITE_SCHEMA_NAME)}.${quoteIdentifier(table)}`;
+}
+
+function columnsExpr(columns: string[]): string {
+  if (columns.length === 1) return quoteIdentifier(columns[0] ?? "");
+  return `(${columns.map((col) => quoteIdentifier(col)).join(", ")})`;
+}
+
+function primaryKeyColumns(tableName: string, columns: SqliteColumnRow[]): string[] {
+  return columns
+    .filter((col) => col.table_name === tableName && col.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((col) => col.name);
+}
+
+function buildTableDbml(
+  table: SqliteObjectRow,
+  columns: SqliteColumnRow[],
+  foreignKeys: SqliteForeignKeyRow[],
+  indexes: SqliteIndexRow[],
+  indexColumns: SqliteIndexColumnRow[],
+): string {
+  const tableColumns = columns.filter((col) => col.table_name === table.name).sort((a, b) => a.cid - b.cid);
+
+  const pkColumns = primaryKeyColumns(table.name, columns);
+  const pkColumnSet = new Set(pkColumns);
+
+  const uniqueIndexNames = new Set(
+    indexes.filter((i) => i.table_name === table.name && i.is_unique && i.origin === "u").map((i) => i.index_name),
+  );
+  const uniqueGroups = new Map<string, { column_name: string; seqno: number }[]>();
+  for (const col of indexColumns.filter((c) => c.table_name === table.name && uniqueIndexNames.has(c.index_name))) {
+    if (col.column_name == null) continue;
+    const list = uniqueGroups.get(col.index_name) ?? [];
+    list.push({ column_name: col.column_name, seqno: col.seqno });
+    uniqueGroups.set(col.index_name, list);
+  }
+  for (const group of uniqueGroups.values()) {
+    group.sort((a, b) => a.seqno - b.seqno);
+  }
+
+  const singleUniqueColumns = new Set<string>();
+  const multiUniqueGroups: string[][] = [];
+  for (const group of uniqueGroups.values()) {
+    if (group.length === 1) {
+      singleUniqueColumns.add(group[0]?.column_name ?? "");
+      continue;
+    }
+    multiUniqueGroups.push(group.map((item) => item.column_name));
+  }
+
+  const fkById = new Map<number, SqliteForeignKeyRow[]>();
+  for (const fk of foreignKeys.filter((f) => f.table_name === table.name)) {
+    const list = fkById.get(fk.id) ?? [];
+    list.push(fk);
+    fkById.set(fk.id, list);
+  }
+  for (const list of fkById.values()) {
+    list.sort((a, b) => a.seq - b.seq);
+  }
+
+  const columnLines: string[] = [];
+  for (const col of tableColumns) {
+    const settings: string[] = [];
+    if (pkColumns.length === 1 && pkColumnSet.has(col.name)) settings.push("pk");
+    if (singleUniqueColumns.has(col.name)) settings.push("unique");
+    if (col.notnull) settings.push("not null");
+    if (col.dflt_value != null && col.dflt_value.trim() !== "") {
+      settings.push(`default: \`${col.dflt_value.replace(/`/g, "\\`")}\``);
+    }
+
+    const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+    columnLines.push(`  ${quoteIdentifier(col.name)} ${formatDbmlType(col)}${settingsStr}`);
+  }
+
+  const indexLines: string[] = [];
+  if (pkColumns.length > 1) {
+    indexLines.push(`    ${columnsExpr(pkColumns)} [pk]`);
+  }
+  for (const uniqueCols of multiUniqueGroups) {
+    indexLines.push(`    ${columnsExpr(uniqueCols)} [unique]`);
+  }
+
+  if (indexLines.length > 0) {
+    columnLines.push("  Indexes {");
+    columnLines.push(...indexLines);
+    columnLines.push("  }");
+  }
+
+  if (table.type === "view") {
+    columnLines.unshift("  // Source object is a view");
+  }
+
+  const tableBlock = `Table ${qualifiedTable(table.name)} {\n${columnLines.join("\n")}\n}`;
+
+  const refs = Array.from(fkById.values()).map((rows) => {
+    const first = rows[0]!;
+    const sourceCols = rows.map((row) => row.from_column);
+    // A NULL "to" column means the foreign key references the parent's primary key.
+    const targetCols = rows.some((row) => row.to_column == null)
+      ? primaryKeyColumns(first.ref_table, columns)
+      : rows.map((row) => row.to_column ?? "");
+    return `Ref: ${qualifiedTable(table.name)}.${columnsExpr(sourceCols)} > ${qualifiedTable(first.ref_table)}.${columnsExpr(targetCols)}`;
+  });
+
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
+}
+
+export function buildSqliteSchemaDbml(data: SqliteSchemaData): Map<string, string> {
+  const tableDbmls = new Map<string, string>();
+  for (const table of data.tables) {
+    const key = `${SQLITE_SCHEMA_NAME}.${table.name}`;
+    tableDbmls.set(key, buildTableDbml(table, data.columns, data.foreignKeys, data.indexes, data.indexColumns));
+  }
+  return tableDbmls;
+}
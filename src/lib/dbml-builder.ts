@@ -2,25 +2,76 @@ import type {
   SchemaData,
   ColumnRow,
   TableRow,
-  EnumTypeRow,
   PrimaryKeyRow,
   UniqueRow,
   ForeignKeyRow,
+  CommentRow,
+  CheckConstraintRow,
+  GeneratedColumnRow,
 } from "./pg-schema";
+import { generatedColumnClause } from "./ddl-builder";
 
 function quoteIdentifier(name: string): string {
   if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
   return `"${name.replace(/"/g, '""')}"`;
 }
 
+/** DBML string for a note; multi-line text uses the triple-quoted form. */
+export function formatDbmlNote(text: string): string {
+  if (text.includes("\n")) return `'''${text.replace(/'''/g, "\\'''")}'''`;
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/** Ref settings for non-default referential actions, e.g. " [delete: cascade]", plus deferrability as a comment. */
+function refSettings(fk: ForeignKeyRow): string {
+  const settings: string[] = [];
+  if (fk.delete_rule && fk.delete_rule !== "NO ACTION") settings.push(`delete: ${fk.delete_rule.toLowerCase()}`);
+  if (fk.update_rule && fk.update_rule !== "NO ACTION") settings.push(`update: ${fk.update_rule.toLowerCase()}`);
+  const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
+  const deferrable =
+    fk.is_deferrable === "YES"
+      ? ` // ${fk.initially_deferred === "YES" ? "DEFERRABLE INITIALLY DEFERRED" : "DEFERRABLE"}`
+      : "";
+  return `${settingsStr}${deferrable}`;
+}
+
+/** Long SQL spellings from format_type and their DBML short forms; the typmod and any [] suffix are kept. */
+const DBML_TYPE_SHORT_NAMES: [RegExp, string][] = [
+  [/^character varying/, "varchar"],
+  [/^character(?=\(|\[|$)/, "char"],
+  [/^bit varying/, "varbit"],
+  [/^timestamp(\(\d+\))? with time zone/, "timestamptz$1"],
+  [/^timestamp(\(\d+\))? without time zone/, "timestamp$1"],
+  [/^time(\(\d+\))? with time zone/, "timetz$1"],
+  [/^time(\(\d+\))? without time zone/, "time$1"],
+];
+
+/** DBML type for a format_type string; types that still contain spaces (e.g. double precision) are quoted. */
+function dbmlTypeFromFormatted(type: string): string {
+  let result = type;
+  for (const [pattern, replacement] of DBML_TYPE_SHORT_NAMES) {
+    if (pattern.test(result)) {
+      result = result.replace(pattern, replacement);
+      break;
+    }
+  }
+  return result.includes(" ") ? `"${result.replace(/"/g, '\\"')}"` : result;
+}
+
 function formatDbmlType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: string; typname: string }>): string {
   const udtKey = `${col.udt_schema}.${col.udt_name}`;
   const customEnum = enumTypeByUdt.get(udtKey);
   if (customEnum) {
     return `${quoteIdentifier(customEnum.schema)}.${quoteIdentifier(customEnum.typname)}`;
   }
+  if (col.domain_schema && col.domain_name) {
+    return `${quoteIdentifier(col.domain_schema)}.${quoteIdentifier(col.domain_name)}`;
+  }
+  if (col.formatted_type) return dbmlTypeFromFormatted(col.formatted_type);
 
   switch (col.data_type) {
+    case "USER-DEFINED":
+      return `${quoteIdentifier(col.udt_schema)}.${quoteIdentifier(col.udt_name)}`;
     case "character varying":
     case "varchar":
       return col.character_maximum_length != null ? `varchar(${col.character_maximum_length})` : "varchar";
@@ -29,9 +80,9 @@ function formatDbmlType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: str
       return col.character_maximum_length != null ? `char(${col.character_maximum_length})` : "char(1)";
     case "numeric":
     case "decimal": {
-      const p = col.numeric_precision != null ? col.numeric_precision : 0;
+      if (col.numeric_precision == null) return "numeric";
       const s = col.numeric_scale != null ? col.numeric_scale : 0;
-      return s > 0 ? `numeric(${p}, ${s})` : `numeric(${p})`;
+      return s > 0 ? `numeric(${col.numeric_precision}, ${s})` : `numeric(${col.numeric_precision})`;
     }
     case "timestamp with time zone":
       return "timestamptz";
@@ -46,25 +97,24 @@ function formatDbmlType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: str
   }
 }
 
-function buildEnumsDbmlForTypes(enumTypeRows: EnumTypeRow[], typeKeys: Set<string>): string {
+/** One DBML Enum block per enum type, keyed schema.name like the cached enums. */
+export function buildSchemaEnumDbml(data: SchemaData): Map<string, string> {
   const byType = new Map<string, { schema: string; labels: string[] }>();
-  for (const row of enumTypeRows) {
+  for (const row of data.enums) {
     const key = `${row.nspname}.${row.typname}`;
-    if (!typeKeys.has(key)) continue;
     if (!byType.has(key)) {
       byType.set(key, { schema: row.nspname, labels: [] });
     }
     byType.get(key)!.labels.push(row.enumlabel);
   }
 
-  const blocks: string[] = [];
+  const blocks = new Map<string, string>();
   for (const [key, value] of byType) {
-    const typname = key.split(".")[1] ?? "";
+    const typname = key.slice(value.schema.length + 1);
     const lines = value.labels.map((label) => `  ${quoteIdentifier(label)}`);
-    blocks.push(`Enum ${quoteIdentifier(value.schema)}.${quoteIdentifier(typname)} {\n${lines.join("\n")}\n}`);
+    blocks.set(key, `Enum ${quoteIdentifier(value.schema)}.${quoteIdentifier(typname)} {\n${lines.join("\n")}\n}`);
   }
-
-  return blocks.join("\n\n");
+  return blocks;
 }
 
 function qualifiedTable(schema: string, table: string): string {
@@ -83,7 +133,10 @@ function buildTableDbml(
   uniques: UniqueRow[],
   foreignKeys: ForeignKeyRow[],
   enumTypeByUdt: Map<string, { schema: string; typname: string }>,
-): { tableDbml: string; usedEnumKeys: Set<string> } {
+  comments: CommentRow[],
+  checks: CheckConstraintRow[],
+  generatedColumns: GeneratedColumnRow[],
+): string {
   const tableColumns = columns
     .filter((col) => col.table_schema === table.table_schema && col.table_name === table.table_name)
     .sort((a, b) => a.ordinal_position - b.ordinal_position);
@@ -128,12 +181,15 @@ function buildTableDbml(
     list.sort((a, b) => a.ordinal_position - b.ordinal_position);
   }
 
-  const usedEnumKeys = new Set<string>();
+  const columnNotes = new Map<string, string>();
+  let tableNote: string | undefined;
+  for (const comment of comments) {
+    if (comment.column_name == null) tableNote = comment.description;
+    else columnNotes.set(comment.column_name, comment.description);
+  }
+
   const columnLines: string[] = [];
   for (const col of tableColumns) {
-    const udtKey = `${col.udt_schema}.${col.udt_name}`;
-    if (enumTypeByUdt.has(udtKey)) usedEnumKeys.add(udtKey);
-
     const settings: string[] = [];
     if (pkColumns.length === 1 && pkColumnSet.has(col.column_name)) settings.push("pk");
     if (singleUniqueColumns.has(col.column_name)) settings.push("unique");
@@ -141,9 +197,17 @@ function buildTableDbml(
     if (col.column_default != null && col.column_default.trim() !== "") {
       settings.push(`default: \`${col.column_default.replace(/`/g, "\\`")}\``);
     }
+    const generated = generatedColumns.find((g) => g.column_name === col.column_name);
+    if (generated?.identity) settings.push("increment");
+    const note = columnNotes.get(col.column_name);
+    if (note) settings.push(`note: ${formatDbmlNote(note)}`);
 
+    // DBML has no generated-column setting; keep the expression visible as a comment.
+    const generatedComment = generated?.generated ? ` // ${generatedColumnClause(generated)}` : "";
     const settingsStr = settings.length > 0 ? ` [${settings.join(", ")}]` : "";
-    columnLines.push(`  ${quoteIdentifier(col.column_name)} ${formatDbmlType(col, enumTypeByUdt)}${settingsStr}`);
+    columnLines.push(
+      `  ${quoteIdentifier(col.column_name)} ${formatDbmlType(col, enumTypeByUdt)}${settingsStr}${generatedComment}`,
+    );
   }
 
   const indexLines: string[] = [];
@@ -160,8 +224,23 @@ function buildTableDbml(
     columnLines.push("  }");
   }
 
+  const checkLines = checks.flatMap((check) => {
+    const match = /^CHECK \((.*)\)(?: NO INHERIT)?(?: NOT VALID)?$/s.exec(check.definition);
+    return match ? [`    \`${match[1]!.replace(/`/g, "\\`")}\` [name: ${formatDbmlNote(check.constraint_name)}]`] : [];
+  });
+  if (checkLines.length > 0) {
+    columnLines.push("  checks {", ...checkLines, "  }");
+  }
+
   if (table.table_type === "VIEW") {
     columnLines.unshift("  // Source object is a view");
+  } else if (table.table_type === "MATERIALIZED VIEW") {
+    columnLines.unshift("  // Source object is a materialized view");
+  } else if (table.table_type === "FOREIGN") {
+    columnLines.unshift("  // Source object is a foreign table");
+  }
+  if (tableNote) {
+    columnLines.push("", `  Note: ${formatDbmlNote(tableNote)}`);
   }
 
   const tableBlock = `Table ${qualifiedTable(table.table_schema, table.table_name)} {\n${columnLines.join("\n")}\n}`;
@@ -170,11 +249,10 @@ function buildTableDbml(
     const first = rows[0]!;
     const sourceCols = rows.map((row) => row.column_name);
     const targetCols = rows.map((row) => row.ref_column_name);
-    return `Ref: ${qualifiedTable(first.table_schema, first.table_name)}.${columnsExpr(sourceCols)} > ${qualifiedTable(first.ref_table_schema, first.ref_table_name)}.${columnsExpr(targetCols)}`;
+    return `Ref: ${qualifiedTable(first.table_schema, first.table_name)}.${columnsExpr(sourceCols)} > ${qualifiedTable(first.ref_table_schema, first.ref_table_name)}.${columnsExpr(targetCols)}${refSettings(first)}`;
   });
 
-  const tableDbml = refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
-  return { tableDbml, usedEnumKeys };
+  return refs.length > 0 ? `${tableBlock}\n\n${refs.join("\n")}` : tableBlock;
 }
 
 export function buildSchemaDbml(data: SchemaData): Map<string, string> {
@@ -186,16 +264,26 @@ export function buildSchemaDbml(data: SchemaData): Map<string, string> {
   const tableDbmls = new Map<string, string>();
   for (const table of data.tables) {
     const key = `${table.table_schema}.${table.table_name}`;
-    const { tableDbml, usedEnumKeys } = buildTableDbml(
+    const isTable = (r: { table_schema: string; table_name: string }) =>
+      r.table_schema === table.table_schema && r.table_name === table.table_name;
+    const tableDbml = buildTableDbml(
       table,
       data.columns,
       data.primaryKeys,
       data.uniques,
       data.foreignKeys,
       enumTypeByUdt,
+      data.comments.filter(isTable),
+      data.checkConstraints.filter(isTable),
+      data.generatedColumns.filter(isTable),
+    );
+    const partitionOf = data.inheritance.find((i) => isTable(i) && i.partition_bound != null);
+    tableDbmls.set(
+      key,
+      partitionOf
+        ? `// Partition of ${qualifiedTable(partitionOf.parent_schema, partitionOf.parent_name)} ${partitionOf.partition_bound}\n${tableDbml}`
+        : tableDbml,
     );
-    const enumsDbml = usedEnumKeys.size > 0 ? buildEnumsDbmlForTypes(data.enums, usedEnumKeys) : "";
-    tableDbmls.set(key, enumsDbml ? `${enumsDbml}\n\n${tableDbml}` : tableDbml);
   }
 
   return tableDbmls;
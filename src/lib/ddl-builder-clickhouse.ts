@@ -0,0 +1,98 @@
+import type { TableCacheEntry } from "./cache";
+import type { ClickhouseSchemaData, ClickhouseTableRow, ClickhouseColumnRow } from "./clickhouse-schema";
+
+/** Clauses that follow the engine in system.tables.engine_full, in the order ClickHouse prints them. */
+const ENGINE_CLAUSES = ["PARTITION BY", "PRIMARY KEY", "ORDER BY", "SAMPLE BY", "TTL", "SETTINGS"];
+
+function quoteId(name: string): string {
+  if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) return name;
+  return "`" + name.replace(/\\/g, "\\\\").replace(/`/g, "\\`") + "`";
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function clickhouseTableType(engine: string): TableCacheEntry["type"] {
+  if (engine === "MaterializedView") return "materialized_view";
+  if (engine === "View" || engine === "LiveView" || engine === "WindowView") return "view";
+  return "table";
+}
+
+/**
+ * Split engine_full (e.g. "MergeTree PARTITION BY toYYYYMM(ts) ORDER BY (a, b) TTL ts + INTERVAL 1 MONTH SETTINGS ...")
+ * into the engine and one entry per clause. Keywords inside parentheses or string literals are ignored.
+ */
+function splitEngineClauses(engineFull: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < engineFull.length; i++) {
+    const ch = engineFull[i]!;
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === "`" || ch === '"') quote = ch;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === " " && depth === 0) {
+      const rest = engineFull.slice(i + 1);
+      if (ENGINE_CLAUSES.some((clause) => rest.startsWith(`${clause} `))) {
+        parts.push(engineFull.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(engineFull.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+function buildColumnLine(col: ClickhouseColumnRow): string {
+  const defaultStr = col.default_kind && col.default_expression ? ` ${col.default_kind} ${col.default_expression}` : "";
+  const codecStr = col.compression_codec ? ` ${col.compression_codec}` : "";
+  const commentStr = col.comment ? ` COMMENT ${quoteString(col.comment)}` : "";
+  return `  ${quoteId(col.name)} ${col.type}${defaultStr}${codecStr}${commentStr}`;
+}
+
+function buildTableDdl(table: ClickhouseTableRow, columns: ClickhouseColumnRow[]): string {
+  const qualifiedName = `${quoteId(table.database)}.${quoteId(table.name)}`;
+  const kind = clickhouseTableType(table.engine);
+
+  // Views keep their full definition (including TO/engine for materialized views) from create_table_query.
+  if (kind !== "table") {
+    const definition = table.create_table_query?.trim();
+    if (definition) return `${definition.replace(/;\s*$/, "")};`;
+    const keyword = kind === "materialized_view" ? "MATERIALIZED VIEW" : "VIEW";
+    return `CREATE ${keyword} ${qualifiedName} AS\n  ${table.as_select || "SELECT ..."};`;
+  }
+
+  const colLines = columns
+    .filter((c) => c.database === table.database && c.table === table.name)
+    .sort((a, b) => Number(a.position) - Number(b.position))
+    .map(buildColumnLine);
+
+  const [engine, ...clauses] = splitEngineClauses(table.engine_full || table.engine);
+  const lines = [`CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n)`, `ENGINE = ${engine ?? table.engine}`];
+  lines.push(...clauses);
+  if (table.comment) lines.push(`COMMENT ${quoteString(table.comment)}`);
+  return `${lines.join("\n")};`;
+}
+
+export function buildClickhouseSchemaDdl(data: ClickhouseSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, TableCacheEntry["type"]>;
+} {
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, TableCacheEntry["type"]>();
+
+  for (const table of data.tables) {
+    const key = `${table.database}.${table.name}`;
+    tableTypes.set(key, clickhouseTableType(table.engine));
+    tableDdls.set(key, buildTableDdl(table, data.columns));
+  }
+
+  return { tableDdls, tableTypes };
+}
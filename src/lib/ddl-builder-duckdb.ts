@@ -0,0 +1,89 @@
+import type {
+  DuckdbSchemaData,
+  DuckdbTableRow,
+  DuckdbViewRow,
+  DuckdbColumnRow,
+  DuckdbConstraintRow,
+  DuckdbIndexRow,
+} from "./duckdb-schema";
+
+function quoteId(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function buildTableDdl(
+  table: DuckdbTableRow,
+  columns: DuckdbColumnRow[],
+  constraints: DuckdbConstraintRow[],
+  indexes: DuckdbIndexRow[],
+  view: DuckdbViewRow | undefined,
+  sourceFile: string | undefined,
+): string {
+  const qualifiedName = `${quoteId(table.table_schema)}.${quoteId(table.table_name)}`;
+  const tableCols = columns
+    .filter((c) => c.table_schema === table.table_schema && c.table_name === table.table_name)
+    .sort((a, b) => Number(a.ordinal_position) - Number(b.ordinal_position));
+
+  // Views over data files are shown as tables: the file is what analysts query, not the view.
+  if (table.table_type === "VIEW" && !sourceFile) {
+    const definition = view?.sql?.trim();
+    if (definition) return `${definition.replace(/;\s*$/, "")};`;
+    return `-- View: ${qualifiedName} (definition in DB)\nCREATE VIEW ${qualifiedName} AS\n  SELECT ${tableCols.map((c) => quoteId(c.column_name)).join(", ")} FROM ...;`;
+  }
+
+  const tableConstraints = constraints.filter(
+    (c) => c.schema_name === table.table_schema && c.table_name === table.table_name,
+  );
+  const fkByColumn = new Map<string, { table: string; column: string }>();
+  for (const fk of tableConstraints.filter((c) => c.constraint_type === "FOREIGN KEY")) {
+    fk.constraint_column_names.forEach((col, i) => {
+      fkByColumn.set(col, { table: fk.referenced_table ?? "", column: fk.referenced_column_names?.[i] ?? "" });
+    });
+  }
+
+  const colLines: string[] = [];
+  for (const col of tableCols) {
+    const nullStr = col.is_nullable === "YES" ? "" : " NOT NULL";
+    const defaultStr =
+      col.column_default != null && col.column_default.trim() !== "" ? ` DEFAULT ${col.column_default}` : "";
+    const fk = fkByColumn.get(col.column_name);
+    const fkComment = fk ? ` -- FK: ${table.table_schema}.${fk.table}.${fk.column}` : "";
+    colLines.push(`  ${quoteId(col.column_name)} ${col.data_type}${nullStr}${defaultStr}${fkComment}`);
+  }
+  for (const constraint of tableConstraints) {
+    colLines.push(`  ${constraint.constraint_text}`);
+  }
+
+  const header = sourceFile ? `-- Source file: ${sourceFile}\n` : "";
+  const tableDdl = `${header}CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n);`;
+  const indexDdls = indexes
+    .filter((i) => i.schema_name === table.table_schema && i.table_name === table.table_name && i.sql?.trim())
+    .map((i) => `${i.sql!.trim().replace(/;\s*$/, "")};`)
+    .join("\n");
+  return indexDdls ? `${tableDdl}\n\n${indexDdls}` : tableDdl;
+}
+
+export function buildDuckdbSchemaDdl(data: DuckdbSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, "table" | "view">;
+} {
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, "table" | "view">();
+  const viewByKey = new Map<string, DuckdbViewRow>();
+  for (const view of data.views) {
+    viewByKey.set(`${view.schema_name}.${view.view_name}`, view);
+  }
+
+  for (const table of data.tables) {
+    const key = `${table.table_schema}.${table.table_name}`;
+    const sourceFile = data.fileSources.get(table.table_name);
+    tableTypes.set(key, table.table_type === "VIEW" && !sourceFile ? "view" : "table");
+    tableDdls.set(
+      key,
+      buildTableDdl(table, data.columns, data.constraints, data.indexes, viewByKey.get(key), sourceFile),
+    );
+  }
+
+  return { tableDdls, tableTypes };
+}
@@ -0,0 +1,192 @@
+import type { TableCacheEntry } from "./cache";
+import type {
+  AliasInfo,
+  AnalysisSettings,
+  CatIndexRow,
+  ElasticsearchSchemaData,
+  FieldMapping,
+  IndexMappings,
+} from "./elasticsearch-schema";
+
+/** Mapping parameters worth showing next to a field's type. */
+const FIELD_SETTINGS = [
+  "analyzer",
+  "search_analyzer",
+  "normalizer",
+  "format",
+  "index",
+  "enabled",
+  "doc_values",
+  "copy_to",
+  "dims",
+  "similarity",
+  "scaling_factor",
+  "path",
+  "null_value",
+  "ignore_above",
+];
+
+/** ES 7+ mappings have `properties` at the top; 6.x nests them under a single mapping type. */
+function rootMapping(mappings: IndexMappings | undefined): IndexMappings {
+  if (!mappings) return {};
+  if (mappings.properties) return mappings;
+  const typed = Object.values(mappings).filter(
+    (value): value is IndexMappings => typeof value === "object" && value !== null && "properties" in value,
+  );
+  return typed.length === 1 ? typed[0]! : mappings;
+}
+
+function formatSettingValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object" && value !== null) return JSON.stringify(value);
+  return String(value);
+}
+
+function describeField(mapping: FieldMapping): string {
+  const type = mapping.type ?? (mapping.properties ? "object" : "unknown");
+  const settings = FIELD_SETTINGS.filter((key) => mapping[key] !== undefined).map(
+    (key) => `${key}: ${formatSettingValue(mapping[key])}`,
+  );
+  return settings.length > 0 ? `${type} (${settings.join(", ")})` : type;
+}
+
+/**
+ * Walk a mapping's properties into indented markdown list lines, using dotted paths
+ * for object/nested sub-fields and multi-fields.
+ */
+function buildFieldLines(properties: Record<string, FieldMapping>, prefix: string, depth: number): string[] {
+  const lines: string[] = [];
+  const indent = "  ".repeat(depth);
+  for (const [name, mapping] of Object.entries(properties).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    lines.push(`${indent}- \`${path}\`: ${describeField(mapping)}`);
+    if (mapping.fields) {
+      for (const [subName, subMapping] of Object.entries(mapping.fields)) {
+        lines.push(`${indent}  - \`${path}.${subName}\`: ${describeField(subMapping)} (multi-field)`);
+      }
+    }
+    if (mapping.properties) {
+      lines.push(...buildFieldLines(mapping.properties, path, depth + 1));
+    }
+  }
+  return lines;
+}
+
+function buildAnalysisLines(analysis: AnalysisSettings | undefined): string[] {
+  if (!analysis) return [];
+  const lines: string[] = [];
+  for (const kind of ["analyzer", "normalizer", "tokenizer", "filter", "char_filter"]) {
+    const components = analysis[kind];
+    if (!components) continue;
+    for (const [name, component] of Object.entries(components)) {
+      const details: string[] = [];
+      if (component.tokenizer) details.push(`tokenizer: ${component.tokenizer}`);
+      if (component.char_filter?.length) details.push(`char_filter: ${component.char_filter.join(", ")}`);
+      if (component.filter?.length) details.push(`filter: ${component.filter.join(", ")}`);
+      const suffix = details.length > 0 ? ` (${details.join("; ")})` : "";
+      lines.push(`- ${kind} \`${name}\`: ${component.type ?? "custom"}${suffix}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Build a human-readable "DDL" string for an index: stats, aliases, dynamic mode,
+ * fields (with nested/object structure) and custom analysis components.
+ */
+function buildIndexDdl(
+  indexName: string,
+  mappings: IndexMappings | undefined,
+  stats: CatIndexRow | undefined,
+  aliases: string[],
+  analysis: AnalysisSettings | undefined,
+): string {
+  const sections: string[] = [];
+  const root = rootMapping(mappings);
+
+  sections.push(`# Index: ${indexName}`);
+  sections.push("");
+
+  const info: string[] = [];
+  if (stats?.["docs.count"] != null) info.push(`Docs: ${stats["docs.count"]}`);
+  if (stats?.["store.size"] != null) info.push(`Size: ${stats["store.size"]}`);
+  if (stats?.health) info.push(`Health: ${stats.health}`);
+  if (info.length > 0) sections.push(`- ${info.join(" · ")}`);
+  if (aliases.length > 0) sections.push(`- Aliases: ${aliases.map((a) => `\`${a}\``).join(", ")}`);
+  if (root.dynamic !== undefined) sections.push(`- Dynamic mapping: ${formatSettingValue(root.dynamic)}`);
+  if (info.length > 0 || aliases.length > 0 || root.dynamic !== undefined) sections.push("");
+
+  const fieldLines = root.properties ? buildFieldLines(root.properties, "", 0) : [];
+  if (fieldLines.length > 0) {
+    sections.push("## Fields");
+    sections.push(...fieldLines);
+    sections.push("");
+  }
+
+  const analysisLines = buildAnalysisLines(analysis);
+  if (analysisLines.length > 0) {
+    sections.push("## Analysis");
+    sections.push(...analysisLines);
+  }
+
+  return sections.join("\n").trimEnd();
+}
+
+function buildAliasDdl(aliasName: string, targets: { index: string; info: AliasInfo }[]): string {
+  const sections: string[] = [`# Alias: ${aliasName}`, "", "## Indices"];
+  for (const { index, info } of targets) {
+    const extra: string[] = [];
+    if (info.is_write_index) extra.push("write index");
+    if (info.filter) extra.push(`filter: ${JSON.stringify(info.filter)}`);
+    const suffix = extra.length > 0 ? ` (${extra.join(", ")})` : "";
+    sections.push(`- \`${index}\`${suffix}`);
+  }
+  return sections.join("\n");
+}
+
+/**
+ * Per-index markdown summaries, with aliases as views; keyed by cluster name so several clusters can
+ * be cached side by side. Hidden (dot-prefixed) indices and aliases are skipped.
+ */
+export function buildElasticsearchSchemaDdl(data: ElasticsearchSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, TableCacheEntry["type"]>;
+} {
+  const statsByIndex = new Map(data.indexStats.map((row) => [row.index, row]));
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, TableCacheEntry["type"]>();
+
+  const aliasTargets = new Map<string, { index: string; info: AliasInfo }[]>();
+  const indexNames = Object.keys(data.mappings)
+    .filter((name) => !name.startsWith("."))
+    .sort();
+  for (const indexName of indexNames) {
+    const aliases = Object.entries(data.aliases[indexName]?.aliases ?? {}).filter(([alias]) => !alias.startsWith("."));
+    for (const [alias, info] of aliases) {
+      const list = aliasTargets.get(alias) ?? [];
+      list.push({ index: indexName, info });
+      aliasTargets.set(alias, list);
+    }
+    const key = `${data.clusterName}.${indexName}`;
+    tableTypes.set(key, "table");
+    tableDdls.set(
+      key,
+      buildIndexDdl(
+        indexName,
+        data.mappings[indexName]?.mappings,
+        statsByIndex.get(indexName),
+        aliases.map(([alias]) => alias),
+        data.settings[indexName]?.settings?.index?.analysis,
+      ),
+    );
+  }
+
+  for (const [alias, targets] of Array.from(aliasTargets.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const key = `${data.clusterName}.${alias}`;
+    if (tableDdls.has(key)) continue;
+    tableTypes.set(key, "view");
+    tableDdls.set(key, buildAliasDdl(alias, targets));
+  }
+
+  return { tableDdls, tableTypes };
+}
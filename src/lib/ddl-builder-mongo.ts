@@ -0,0 +1,169 @@
+import type { Document } from "mongodb";
+import { formatInferredRef, formatUncheckedReferences } from "./dbml-builder-mongo";
+import { buildMongoFieldModel, type MongoCollectionInfo, type MongoField, type MongoSchemaData } from "./mongo-schema";
+import type { SchemaDdlResult } from "./schema-adapter";
+
+function formatPercent(count: number, total: number): string {
+  const percent = Math.round((count / total) * 100);
+  return percent === 0 && count > 0 ? "<1%" : `${percent}%`;
+}
+
+/**
+ * e.g. "email: string (98%)", "age: int (80%) | string (15%)" for a polymorphic field, with what $jsonSchema
+ * declares in brackets and mismatches after it: "email: string (97%) [required, string] ⚠ required but ...".
+ */
+function formatField(field: MongoField, sampledCount: number): string {
+  const types =
+    field.count === 0
+      ? "not sampled"
+      : Object.entries(field.sampledTypes)
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .map(([type, count]) => `${type} (${formatPercent(count, sampledCount)})`)
+          .join(" | ");
+  const declared = [
+    field.required ? "required" : undefined,
+    field.declaredTypes?.join(" | "),
+    field.enumValues ? `enum ${JSON.stringify(field.enumValues)}` : undefined,
+  ].filter(Boolean);
+  const declaredStr = declared.length > 0 ? ` [${declared.join(", ")}]` : "";
+  const mismatchStr = field.mismatches.map((m) => ` ⚠ ${m}`).join(";");
+  const description = field.description ? ` // ${field.description.replace(/\s+/g, " ").trim()}` : "";
+  return `  ${field.path}: ${types}${declaredStr}${mismatchStr}${description}`;
+}
+
+function formatIndex(idx: Document): string {
+  const name = (idx.name as string) ?? "(unnamed)";
+  const keyStr = JSON.stringify(idx.key as Document);
+  const extra: string[] = [];
+  if (idx.unique) extra.push("unique");
+  if (idx.sparse) extra.push("sparse");
+  if (idx.hidden) extra.push("hidden");
+  if (idx.expireAfterSeconds != null) extra.push(`expireAfterSeconds: ${idx.expireAfterSeconds}`);
+  if (idx.partialFilterExpression)
+    extra.push(`partialFilterExpression: ${JSON.stringify(idx.partialFilterExpression)}`);
+  // text indexes
+  if (idx.weights) extra.push(`weights: ${JSON.stringify(idx.weights)}`);
+  if (idx.default_language) extra.push(`default_language: ${idx.default_language}`);
+  if (idx.language_override) extra.push(`language_override: ${idx.language_override}`);
+  // geo indexes
+  if (idx["2dsphereIndexVersion"] != null) extra.push(`2dsphereIndexVersion: ${idx["2dsphereIndexVersion"]}`);
+  if (idx.bits != null) extra.push(`bits: ${idx.bits}`);
+  if (idx.min != null) extra.push(`min: ${idx.min}`);
+  if (idx.max != null) extra.push(`max: ${idx.max}`);
+  if (idx.wildcardProjection) extra.push(`wildcardProjection: ${JSON.stringify(idx.wildcardProjection)}`);
+  if (idx.collation) extra.push(`collation: ${JSON.stringify(idx.collation)}`);
+  const suffix = extra.length > 0 ? ` (${extra.join(", ")})` : "";
+  return `- \`${name}\`: ${keyStr}${suffix}`;
+}
+
+/** Time-series, capped, collation and sharding settings, one bullet each. */
+function formatCollectionOptions(collection: MongoCollectionInfo): string[] {
+  const options = collection.options;
+  const lines: string[] = [];
+  const timeseries = options.timeseries as Document | undefined;
+  if (timeseries) {
+    const parts = [`timeField \`${timeseries.timeField}\``];
+    if (timeseries.metaField) parts.push(`metaField \`${timeseries.metaField}\``);
+    if (timeseries.granularity) parts.push(`granularity ${timeseries.granularity}`);
+    if (timeseries.bucketMaxSpanSeconds != null) parts.push(`bucketMaxSpanSeconds ${timeseries.bucketMaxSpanSeconds}`);
+    lines.push(`- time series: ${parts.join(", ")}`);
+  }
+  if (options.expireAfterSeconds != null) lines.push(`- expireAfterSeconds: ${options.expireAfterSeconds}`);
+  if (options.capped) {
+    const limits = [options.size != null ? `size ${options.size} bytes` : undefined];
+    if (options.max) limits.push(`max ${options.max} documents`);
+    lines.push(`- capped: ${limits.filter(Boolean).join(", ") || "yes"}`);
+  }
+  if (options.validationLevel || options.validationAction) {
+    const validation = [
+      options.validationLevel ? `level ${options.validationLevel}` : undefined,
+      options.validationAction ? `action ${options.validationAction}` : undefined,
+    ].filter(Boolean);
+    lines.push(`- validation: ${validation.join(", ")}`);
+  }
+  if (options.collation) lines.push(`- collation: ${JSON.stringify(options.collation)}`);
+  if (collection.shardKey) {
+    const unique = collection.shardKey.unique ? " (unique)" : "";
+    lines.push(`- shard key: ${JSON.stringify(collection.shardKey.key)}${unique}`);
+  }
+  return lines;
+}
+
+/**
+ * Build a human-readable "DDL" string for a MongoDB collection: view pipeline, collection options,
+ * indexes, validator rules outside $jsonSchema, fields merged from $jsonSchema and the sample, and inferred references.
+ */
+function buildCollectionDdl(collection: MongoCollectionInfo): string {
+  const sections: string[] = [];
+
+  sections.push(`# ${collection.type === "view" ? "View" : "Collection"}: ${collection.name}`);
+  sections.push("");
+
+  if (collection.options.viewOn) {
+    sections.push(`## View on \`${collection.options.viewOn}\``);
+    sections.push("```json");
+    sections.push(JSON.stringify(collection.options.pipeline ?? [], null, 2));
+    sections.push("```");
+    sections.push("");
+  }
+
+  const optionLines = formatCollectionOptions(collection);
+  if (optionLines.length > 0) {
+    sections.push("## Options");
+    sections.push(...optionLines);
+    sections.push("");
+  }
+
+  if (collection.indexes.length > 0) {
+    sections.push("## Indexes");
+    sections.push(...collection.indexes.map(formatIndex));
+    sections.push("");
+  }
+
+  // $jsonSchema is merged into the field list; query-operator rules ($expr, $or, ...) are shown as written.
+  const { $jsonSchema, ...otherRules } = (collection.options.validator as Document | undefined) ?? {};
+  if (Object.keys(otherRules).length > 0) {
+    sections.push("## Schema validation");
+    sections.push("```json");
+    sections.push(JSON.stringify(otherRules, null, 2));
+    sections.push("```");
+    sections.push("");
+  }
+
+  const fields = buildMongoFieldModel(collection);
+  if (fields.length > 0) {
+    const plural = collection.sampledCount === 1 ? "" : "s";
+    const sources = [`${collection.sampledCount} sampled document${plural}`, $jsonSchema ? "$jsonSchema" : undefined];
+    sections.push(`## Fields (${sources.filter(Boolean).join(" + ")})`);
+    sections.push(...fields.map((field) => formatField(field, collection.sampledCount)));
+    if (collection.fieldsTruncated) sections.push(`  … more paths not shown`);
+    sections.push("");
+  }
+
+  if (collection.references.length > 0 || collection.uncheckedReferencePaths.length > 0) {
+    sections.push("## Inferred references");
+    if (collection.references.length > 0) {
+      sections.push("```dbml");
+      sections.push(
+        ...collection.references.map((ref) => formatInferredRef(collection.database, collection.name, ref)),
+      );
+      sections.push("```");
+    }
+    if (collection.uncheckedReferencePaths.length > 0) {
+      sections.push(`- ${formatUncheckedReferences(collection.uncheckedReferencePaths)}`);
+    }
+  }
+
+  return sections.join("\n").trimEnd();
+}
+
+export function buildMongoSchemaDdl(data: MongoSchemaData): SchemaDdlResult {
+  const tableDdls = new Map<string, string>();
+  const tableTypes: SchemaDdlResult["tableTypes"] = new Map();
+  for (const collection of data.collections) {
+    const key = `${collection.database}.${collection.name}`;
+    tableDdls.set(key, buildCollectionDdl(collection));
+    tableTypes.set(key, collection.type);
+  }
+  return { tableDdls, tableTypes };
+}
@@ -0,0 +1,188 @@
+import type {
+  MssqlSchemaData,
+  MssqlTableRow,
+  MssqlColumnRow,
+  MssqlForeignKeyRow,
+  MssqlIndexRow,
+  MssqlCheckRow,
+} from "./mssql-schema";
+
+function quoteId(name: string): string {
+  return `[${name.replace(/]/g, "]]")}]`;
+}
+
+/** Render a sys.columns type the way SSMS scripts it (e.g. nvarchar(50), decimal(18,2), varchar(max)). */
+export function formatMssqlType(col: MssqlColumnRow): string {
+  switch (col.type_name) {
+    case "nvarchar":
+    case "nchar":
+      return col.max_length === -1 ? `${col.type_name}(max)` : `${col.type_name}(${col.max_length / 2})`;
+    case "varchar":
+    case "char":
+    case "varbinary":
+    case "binary":
+      return col.max_length === -1 ? `${col.type_name}(max)` : `${col.type_name}(${col.max_length})`;
+    case "decimal":
+    case "numeric":
+      return `${col.type_name}(${col.precision},${col.scale})`;
+    case "datetime2":
+    case "datetimeoffset":
+    case "time":
+      return `${col.type_name}(${col.scale})`;
+    default:
+      return col.type_name;
+  }
+}
+
+function formatReferentialAction(action: string): string {
+  return action.replace(/_/g, " ");
+}
+
+function buildColumnLine(col: MssqlColumnRow, fk: MssqlForeignKeyRow | undefined): string {
+  const fkComment = fk ? ` -- FK: ${fk.ref_schema_name}.${fk.ref_table_name}.${fk.ref_column_name}` : "";
+  if (col.computed_definition != null) {
+    return `  ${quoteId(col.column_name)} AS ${col.computed_definition}${col.is_persisted ? " PERSISTED" : ""}${fkComment}`;
+  }
+  const identityStr = col.is_identity ? ` IDENTITY(${col.identity_seed ?? 1},${col.identity_increment ?? 1})` : "";
+  const nullStr = col.is_nullable ? "NULL" : "NOT NULL";
+  const defaultStr = col.default_definition != null ? ` DEFAULT ${col.default_definition}` : "";
+  return `  ${quoteId(col.column_name)} ${formatMssqlType(col)}${identityStr} ${nullStr}${defaultStr}${fkComment}`;
+}
+
+/**
+ * CREATE INDEX for an index that is not a constraint. XML, spatial and columnstore indexes each have
+ * their own syntax; a clustered columnstore index covers the whole table and takes no column list.
+ */
+function buildIndexDdl(
+  indexName: string,
+  qualifiedName: string,
+  rows: MssqlIndexRow[],
+  keyCols: string[],
+  includedCols: string[],
+): string {
+  const first = rows[0]!;
+  const target = `${quoteId(indexName)} ON ${qualifiedName}`;
+  // Columnstore rows have key_ordinal 0, so list them in index_column_id order.
+  const allCols = rows.map((r) => quoteId(r.column_name));
+  switch (first.type_desc) {
+    case "XML": {
+      const xmlCol = quoteId(first.column_name);
+      if (first.xml_index_type === "PRIMARY_XML") return `CREATE PRIMARY XML INDEX ${target} (${xmlCol});`;
+      if (first.xml_index_type === "SECONDARY_XML" && first.xml_using_index && first.xml_secondary_type) {
+        return `CREATE XML INDEX ${target} (${xmlCol}) USING XML INDEX ${quoteId(first.xml_using_index)} FOR ${first.xml_secondary_type};`;
+      }
+      return `-- ${first.xml_index_type ?? "XML"} index ${quoteId(indexName)} on ${xmlCol} is not scripted`;
+    }
+    case "SPATIAL": {
+      const using = first.tessellation_scheme ? ` USING ${first.tessellation_scheme}` : "";
+      const box = [first.bounding_box_xmin, first.bounding_box_ymin, first.bounding_box_xmax, first.bounding_box_ymax];
+      const withStr = box.every((v) => v != null) ? ` WITH (BOUNDING_BOX = (${box.join(", ")}))` : "";
+      return `CREATE SPATIAL INDEX ${target} (${quoteId(first.column_name)})${using}${withStr};`;
+    }
+    case "CLUSTERED COLUMNSTORE":
+      return `CREATE CLUSTERED COLUMNSTORE INDEX ${target};`;
+    case "NONCLUSTERED COLUMNSTORE": {
+      const whereStr = first.filter_definition ? ` WHERE ${first.filter_definition}` : "";
+      return `CREATE NONCLUSTERED COLUMNSTORE INDEX ${target} (${allCols.join(", ")})${whereStr};`;
+    }
+    default: {
+      const clustered = first.type_desc === "CLUSTERED" ? "CLUSTERED" : "NONCLUSTERED";
+      const includeStr = includedCols.length > 0 ? ` INCLUDE (${includedCols.join(", ")})` : "";
+      const whereStr = first.filter_definition ? ` WHERE ${first.filter_definition}` : "";
+      return `CREATE ${first.is_unique ? "UNIQUE " : ""}${clustered} INDEX ${target} (${keyCols.join(", ")})${includeStr}${whereStr};`;
+    }
+  }
+}
+
+function buildTableDdl(
+  table: MssqlTableRow,
+  columns: MssqlColumnRow[],
+  foreignKeys: MssqlForeignKeyRow[],
+  indexes: MssqlIndexRow[],
+  checks: MssqlCheckRow[],
+): string {
+  const qualifiedName = `${quoteId(table.schema_name)}.${quoteId(table.table_name)}`;
+  const tableCols = columns
+    .filter((c) => c.schema_name === table.schema_name && c.table_name === table.table_name)
+    .sort((a, b) => a.column_id - b.column_id);
+
+  if (table.object_type === "view") {
+    const definition = table.definition?.trim();
+    if (definition) return `${definition.replace(/;\s*$/, "")};`;
+    // OBJECT_DEFINITION returns NULL for encrypted views or without VIEW DEFINITION permission
+    return `-- View: ${qualifiedName} (definition in DB)\nCREATE VIEW ${qualifiedName} AS\n  SELECT ${tableCols.map((c) => quoteId(c.column_name)).join(", ")} FROM ...;`;
+  }
+
+  const fkByColumn = new Map<string, MssqlForeignKeyRow>();
+  const fkByConstraint = new Map<string, MssqlForeignKeyRow[]>();
+  for (const fk of foreignKeys.filter(
+    (f) => f.schema_name === table.schema_name && f.table_name === table.table_name,
+  )) {
+    fkByColumn.set(fk.column_name, fk);
+    const list = fkByConstraint.get(fk.constraint_name) ?? [];
+    list.push(fk);
+    fkByConstraint.set(fk.constraint_name, list);
+  }
+  for (const list of fkByConstraint.values()) {
+    list.sort((a, b) => a.ordinal_position - b.ordinal_position);
+  }
+
+  const indexByName = new Map<string, MssqlIndexRow[]>();
+  for (const i of indexes.filter((i) => i.schema_name === table.schema_name && i.table_name === table.table_name)) {
+    const list = indexByName.get(i.index_name) ?? [];
+    list.push(i);
+    indexByName.set(i.index_name, list);
+  }
+
+  const colLines = tableCols.map((col) => buildColumnLine(col, fkByColumn.get(col.column_name)));
+  const indexDdls: string[] = [];
+  for (const [indexName, rows] of indexByName) {
+    const first = rows[0]!;
+    const keyCols = rows
+      .filter((r) => !r.is_included_column)
+      .sort((a, b) => a.key_ordinal - b.key_ordinal)
+      .map((r) => `${quoteId(r.column_name)}${r.is_descending_key ? " DESC" : ""}`);
+    const includedCols = rows.filter((r) => r.is_included_column).map((r) => quoteId(r.column_name));
+    const clustered = first.type_desc === "CLUSTERED" ? "CLUSTERED" : "NONCLUSTERED";
+    if (first.is_primary_key) {
+      colLines.push(`  CONSTRAINT ${quoteId(indexName)} PRIMARY KEY ${clustered} (${keyCols.join(", ")})`);
+    } else if (first.is_unique_constraint) {
+      colLines.push(`  CONSTRAINT ${quoteId(indexName)} UNIQUE ${clustered} (${keyCols.join(", ")})`);
+    } else {
+      indexDdls.push(buildIndexDdl(indexName, qualifiedName, rows, keyCols, includedCols));
+    }
+  }
+  for (const [constraintName, fkList] of fkByConstraint) {
+    const first = fkList[0]!;
+    const cols = fkList.map((f) => quoteId(f.column_name)).join(", ");
+    const refCols = fkList.map((f) => quoteId(f.ref_column_name)).join(", ");
+    const actions: string[] = [];
+    if (first.delete_action !== "NO_ACTION") actions.push(` ON DELETE ${formatReferentialAction(first.delete_action)}`);
+    if (first.update_action !== "NO_ACTION") actions.push(` ON UPDATE ${formatReferentialAction(first.update_action)}`);
+    colLines.push(
+      `  CONSTRAINT ${quoteId(constraintName)} FOREIGN KEY (${cols}) REFERENCES ${quoteId(first.ref_schema_name)}.${quoteId(first.ref_table_name)} (${refCols})${actions.join("")}`,
+    );
+  }
+  for (const check of checks.filter((c) => c.schema_name === table.schema_name && c.table_name === table.table_name)) {
+    colLines.push(`  CONSTRAINT ${quoteId(check.constraint_name)} CHECK ${check.definition}`);
+  }
+
+  const tableDdl = `CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n);`;
+  return indexDdls.length > 0 ? `${tableDdl}\n\n${indexDdls.join("\n")}` : tableDdl;
+}
+
+export function buildMssqlSchemaDdl(data: MssqlSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, "table" | "view">;
+} {
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, "table" | "view">();
+
+  for (const table of data.tables) {
+    const key = `${table.schema_name}.${table.table_name}`;
+    tableTypes.set(key, table.object_type);
+    tableDdls.set(key, buildTableDdl(table, data.columns, data.foreignKeys, data.indexes, data.checks));
+  }
+
+  return { tableDdls, tableTypes };
+}
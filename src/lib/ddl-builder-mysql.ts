@@ -1,6 +1,7 @@
 import type {
   MysqlSchemaData,
   MysqlTableRow,
+  MysqlViewRow,
   MysqlColumnRow,
   MysqlPrimaryKeyRow,
   MysqlUniqueRow,
@@ -12,6 +13,16 @@ function quoteId(name: string): string {
   return "`" + name.replace(/`/g, "``") + "`";
 }
 
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`;
+}
+
+/** Table comment, ignoring the "VIEW" placeholder MySQL reports for views. */
+export function mysqlTableComment(table: MysqlTableRow): string | undefined {
+  if (table.TABLE_TYPE === "VIEW") return undefined;
+  return table.TABLE_COMMENT?.trim() || undefined;
+}
+
 function formatDefault(defaultVal: string | null): string {
   if (defaultVal == null || defaultVal.trim() === "") return "";
   const v = defaultVal.trim();
@@ -29,6 +40,7 @@ function buildTableDdl(
   uniques: MysqlUniqueRow[],
   foreignKeys: MysqlForeignKeyRow[],
   indexes: MysqlIndexRow[],
+  view: MysqlViewRow | undefined,
 ): string {
   const tableCols = columns.filter((c) => c.TABLE_SCHEMA === table.TABLE_SCHEMA && c.TABLE_NAME === table.TABLE_NAME);
   const pkCols = primaryKeys
@@ -95,7 +107,8 @@ function buildTableDdl(
     const fkComment = fk
       ? ` -- FK: ${fk.REFERENCED_TABLE_SCHEMA}.${fk.REFERENCED_TABLE_NAME}.${fk.REFERENCED_COLUMN_NAME}`
       : "";
-    colLines.push(`  ${quoteId(col.COLUMN_NAME)} ${typeStr} ${nullStr}${defaultStr}${fkComment}`);
+    const commentStr = col.COLUMN_COMMENT ? ` COMMENT ${quoteLiteral(col.COLUMN_COMMENT)}` : "";
+    colLines.push(`  ${quoteId(col.COLUMN_NAME)} ${typeStr} ${nullStr}${defaultStr}${commentStr}${fkComment}`);
   }
 
   if (pkCols.length > 0) {
@@ -108,7 +121,15 @@ function buildTableDdl(
     const cols = fkList.map((f) => quoteId(f.COLUMN_NAME)).join(", ");
     const first = fkList[0]!;
     const ref = `${quoteId(first.REFERENCED_TABLE_SCHEMA)}.${quoteId(first.REFERENCED_TABLE_NAME)} (${fkList.map((f) => quoteId(f.REFERENCED_COLUMN_NAME)).join(", ")})`;
-    colLines.push(`  CONSTRAINT ${quoteId(constraintName)} FOREIGN KEY (${cols}) REFERENCES ${ref}`);
+    const actions = [
+      first.UPDATE_RULE && first.UPDATE_RULE !== "NO ACTION" && first.UPDATE_RULE !== "RESTRICT"
+        ? ` ON UPDATE ${first.UPDATE_RULE}`
+        : "",
+      first.DELETE_RULE && first.DELETE_RULE !== "NO ACTION" && first.DELETE_RULE !== "RESTRICT"
+        ? ` ON DELETE ${first.DELETE_RULE}`
+        : "",
+    ].join("");
+    colLines.push(`  CONSTRAINT ${quoteId(constraintName)} FOREIGN KEY (${cols}) REFERENCES ${ref}${actions}`);
   }
   for (const [indexName, indexCols] of indexByName) {
     if (pkConstraintNames.has(indexName) || uniqueConstraintNames.has(indexName)) continue;
@@ -121,9 +142,16 @@ function buildTableDdl(
 
   const qualifiedName = `${quoteId(table.TABLE_SCHEMA)}.${quoteId(table.TABLE_NAME)}`;
   if (table.TABLE_TYPE === "VIEW") {
+    const definition = view?.VIEW_DEFINITION?.trim();
+    if (definition) {
+      return `CREATE VIEW ${qualifiedName} AS\n  ${definition.replace(/;\s*$/, "")};`;
+    }
+    // VIEW_DEFINITION is empty when the user lacks SHOW VIEW on the view
     return `-- View: ${qualifiedName} (definition in DB)\nCREATE VIEW ${qualifiedName} AS\n  SELECT ${tableCols.map((c) => quoteId(c.COLUMN_NAME)).join(", ")} FROM ...;`;
   }
-  return `CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n);`;
+  const tableComment = mysqlTableComment(table);
+  const tableCommentStr = tableComment ? ` COMMENT=${quoteLiteral(tableComment)}` : "";
+  return `CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n)${tableCommentStr};`;
 }
 
 export function buildMysqlSchemaDdl(data: MysqlSchemaData): {
@@ -132,11 +160,23 @@ export function buildMysqlSchemaDdl(data: MysqlSchemaData): {
 } {
   const tableDdls = new Map<string, string>();
   const tableTypes = new Map<string, "table" | "view">();
+  const viewByKey = new Map<string, MysqlViewRow>();
+  for (const view of data.views) {
+    viewByKey.set(`${view.TABLE_SCHEMA}.${view.TABLE_NAME}`, view);
+  }
 
   for (const table of data.tables) {
     const key = `${table.TABLE_SCHEMA}.${table.TABLE_NAME}`;
     tableTypes.set(key, table.TABLE_TYPE === "VIEW" ? "view" : "table");
-    const ddl = buildTableDdl(table, data.columns, data.primaryKeys, data.uniques, data.foreignKeys, data.indexes);
+    const ddl = buildTableDdl(
+      table,
+      data.columns,
+      data.primaryKeys,
+      data.uniques,
+      data.foreignKeys,
+      data.indexes,
+      viewByKey.get(key),
+    );
     tableDdls.set(key, ddl);
   }
 
@@ -0,0 +1,58 @@
+import {
+  SQLITE_SCHEMA_NAME,
+  type SqliteSchemaData,
+  type SqliteObjectRow,
+  type SqliteColumnRow,
+  type SqliteIndexRow,
+} from "./sqlite-schema";
+
+function quoteId(name: string): string {
+  if (/^[a-z_][a-z0-9_]*$/i.test(name)) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Fallback for objects whose original CREATE statement is not stored in sqlite_master. */
+function buildTableDdlFromColumns(table: SqliteObjectRow, columns: SqliteColumnRow[]): string {
+  const tableCols = columns.filter((c) => c.table_name === table.name).sort((a, b) => a.cid - b.cid);
+  const pkCols = tableCols.filter((c) => c.pk > 0).sort((a, b) => a.pk - b.pk);
+  const colLines = tableCols.map((col) => {
+    const typeStr = col.type ? ` ${col.type}` : "";
+    const nullStr = col.notnull ? " NOT NULL" : "";
+    const defaultStr = col.dflt_value != null ? ` DEFAULT ${col.dflt_value}` : "";
+    return `  ${quoteId(col.name)}${typeStr}${nullStr}${defaultStr}`;
+  });
+  if (pkCols.length > 0) {
+    colLines.push(`  PRIMARY KEY (${pkCols.map((c) => quoteId(c.name)).join(", ")})`);
+  }
+  return `CREATE TABLE ${quoteId(table.name)} (\n${colLines.join(",\n")}\n);`;
+}
+
+function buildTableDdl(table: SqliteObjectRow, columns: SqliteColumnRow[], indexes: SqliteIndexRow[]): string {
+  const tableDdl = table.sql?.trim()
+    ? `${table.sql.trim().replace(/;\s*$/, "")};`
+    : buildTableDdlFromColumns(table, columns);
+  if (table.type === "view") return tableDdl;
+
+  // Indexes created by UNIQUE/PRIMARY KEY constraints have no sql; they are already in the CREATE TABLE.
+  const indexDdls = indexes
+    .filter((i) => i.table_name === table.name && i.sql?.trim())
+    .map((i) => `${i.sql!.trim().replace(/;\s*$/, "")};`)
+    .join("\n");
+  return indexDdls ? `${tableDdl}\n\n${indexDdls}` : tableDdl;
+}
+
+export function buildSqliteSchemaDdl(data: SqliteSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, "table" | "view">;
+} {
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, "table" | "view">();
+
+  for (const table of data.tables) {
+    const key = `${SQLITE_SCHEMA_NAME}.${table.name}`;
+    tableTypes.set(key, table.type === "view" ? "view" : "table");
+    tableDdls.set(key, buildTableDdl(table, data.columns, data.indexes));
+  }
+
+  return { tableDdls, tableTypes };
+}
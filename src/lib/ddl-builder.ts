@@ -7,7 +7,36 @@ import type {
   UniqueRow,
   ForeignKeyRow,
   IndexRow,
+  ForeignTableRow,
+  CommentRow,
+  CheckConstraintRow,
+  GeneratedColumnRow,
+  InheritanceRow,
+  RoutineRow,
+  DomainRow,
+  CompositeTypeRow,
+  SequenceRow,
+  ExtensionObjectRow,
 } from "./pg-schema";
+import type { DdlExtraKind, DependencyCacheEntry, EnumCacheEntry, TableCacheEntry } from "./cache";
+
+/** Cache kind for each table_type returned by fetchSchemaData. */
+const TABLE_TYPE_KINDS: Record<string, TableCacheEntry["type"]> = {
+  "BASE TABLE": "table",
+  VIEW: "view",
+  "MATERIALIZED VIEW": "materialized_view",
+  FOREIGN: "foreign_table",
+};
+
+/** pg_class.reldiststyle values on Redshift; 10-12 are the AUTO variants. */
+const REDSHIFT_DISTSTYLES: Record<number, string> = {
+  0: "EVEN",
+  1: "KEY",
+  8: "ALL",
+  10: "AUTO",
+  11: "AUTO",
+  12: "AUTO",
+};
 
 function quoteId(name: string): string {
   if (/^[a-z_][a-z0-9_]*$/.test(name)) return name;
@@ -20,7 +49,13 @@ function formatType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: string;
   if (customEnum) {
     return `${quoteId(customEnum.schema)}.${quoteId(customEnum.typname)}`;
   }
+  if (col.domain_schema && col.domain_name) {
+    return `${quoteId(col.domain_schema)}.${quoteId(col.domain_name)}`;
+  }
+  if (col.formatted_type) return col.formatted_type;
   switch (col.data_type) {
+    case "USER-DEFINED":
+      return `${quoteId(col.udt_schema)}.${quoteId(col.udt_name)}`;
     case "character varying":
     case "varchar":
       return col.character_maximum_length != null
@@ -31,9 +66,9 @@ function formatType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: string;
       return col.character_maximum_length != null ? `character(${col.character_maximum_length})` : "character(1)";
     case "numeric":
     case "decimal": {
-      const p = col.numeric_precision != null ? col.numeric_precision : 0;
+      if (col.numeric_precision == null) return "numeric";
       const s = col.numeric_scale != null ? col.numeric_scale : 0;
-      return s > 0 ? `numeric(${p},${s})` : `numeric(${p})`;
+      return s > 0 ? `numeric(${col.numeric_precision},${s})` : `numeric(${col.numeric_precision})`;
     }
     case "timestamp with time zone":
       return "timestamp with time zone";
@@ -48,24 +83,218 @@ function formatType(col: ColumnRow, enumTypeByUdt: Map<string, { schema: string;
   }
 }
 
-function buildEnumsDdlForTypes(enumTypeRows: EnumTypeRow[], typeKeys: Set<string>): string {
-  const byType = new Map<string, { schema: string; labels: string[] }>();
+const COMMENT_OBJECT_KEYWORDS: Record<string, string> = {
+  VIEW: "VIEW",
+  "MATERIALIZED VIEW": "MATERIALIZED VIEW",
+  FOREIGN: "FOREIGN TABLE",
+};
+
+/** MATCH / ON UPDATE / ON DELETE / DEFERRABLE clauses of a foreign key, leaving out the defaults. */
+function foreignKeyOptionsClause(fk: ForeignKeyRow): string {
+  const parts: string[] = [];
+  if (fk.match_option && fk.match_option !== "NONE" && fk.match_option !== "SIMPLE") {
+    parts.push(`MATCH ${fk.match_option}`);
+  }
+  if (fk.update_rule && fk.update_rule !== "NO ACTION") parts.push(`ON UPDATE ${fk.update_rule}`);
+  if (fk.delete_rule && fk.delete_rule !== "NO ACTION") parts.push(`ON DELETE ${fk.delete_rule}`);
+  if (fk.is_deferrable === "YES") {
+    parts.push(fk.initially_deferred === "YES" ? "DEFERRABLE INITIALLY DEFERRED" : "DEFERRABLE");
+  }
+  return parts.map((p) => ` ${p}`).join("");
+}
+
+/** IDENTITY / GENERATED clause for a column, or "" for an ordinary column. */
+export function generatedColumnClause(generated: GeneratedColumnRow | undefined): string {
+  if (!generated) return "";
+  if (generated.identity === "a") return "GENERATED ALWAYS AS IDENTITY";
+  if (generated.identity === "d") return "GENERATED BY DEFAULT AS IDENTITY";
+  if (generated.generated && generated.expression) {
+    return `GENERATED ALWAYS AS (${generated.expression}) ${generated.generated === "v" ? "VIRTUAL" : "STORED"}`;
+  }
+  return "";
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** COMMENT ON statements for a table and its columns, table comment first. */
+function buildCommentsDdl(table: TableRow, comments: CommentRow[]): string {
+  const qualifiedName = `${quoteId(table.table_schema)}.${quoteId(table.table_name)}`;
+  const keyword = COMMENT_OBJECT_KEYWORDS[table.table_type] ?? "TABLE";
+  const lines: string[] = [];
+  for (const comment of comments) {
+    if (comment.column_name == null) {
+      lines.unshift(`COMMENT ON ${keyword} ${qualifiedName} IS ${quoteLiteral(comment.description)};`);
+    } else {
+      lines.push(
+        `COMMENT ON COLUMN ${qualifiedName}.${quoteId(comment.column_name)} IS ${quoteLiteral(comment.description)};`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** One cache entry per enum type, with the columns that use it; unused enums are kept too. */
+function buildEnumEntries(enumTypeRows: EnumTypeRow[], usedBy: Map<string, string[]>): Map<string, EnumCacheEntry> {
+  const labelsByType = new Map<string, { schema: string; typname: string; labels: string[] }>();
   for (const row of enumTypeRows) {
     const key = `${row.nspname}.${row.typname}`;
-    if (!typeKeys.has(key)) continue;
-    if (!byType.has(key)) {
-      byType.set(key, { schema: row.nspname, labels: [] });
+    if (!labelsByType.has(key)) labelsByType.set(key, { schema: row.nspname, typname: row.typname, labels: [] });
+    labelsByType.get(key)!.labels.push(row.enumlabel);
+  }
+  const entries = new Map<string, EnumCacheEntry>();
+  for (const [key, { schema, typname, labels }] of labelsByType) {
+    const values = labels.map(quoteLiteral).join(", ");
+    entries.set(key, {
+      ddl: `CREATE TYPE ${quoteId(schema)}.${quoteId(typname)} AS ENUM (${values});`,
+      schema,
+      values: labels,
+      usedBy: usedBy.get(key) ?? [],
+    });
+  }
+  return entries;
+}
+
+/** Domains, composite types, sequences and extension objects by qualified name, built once per sync. */
+type DependencyIndex = {
+  domains: Map<string, DomainRow>;
+  compositeTypes: Map<string, CompositeTypeRow>;
+  sequences: Map<string, SequenceRow>;
+  extensionTypes: Map<string, ExtensionObjectRow>;
+  extensionFunctions: Map<string, ExtensionObjectRow>;
+  /**
+   * Extension functions an unqualified call resolves to, by bare name. A function shadowed by one earlier on the
+   * search_path (pgcrypto's gen_random_uuid behind pg_catalog's) is left out, as Postgres prints calls to it qualified.
+   */
+  visibleExtensionFunctions: Map<string, ExtensionObjectRow>;
+};
+
+function indexDependencies(data: SchemaData): DependencyIndex {
+  const extensionTypes = new Map<string, ExtensionObjectRow>();
+  const extensionFunctions = new Map<string, ExtensionObjectRow>();
+  const visibleExtensionFunctions = new Map<string, ExtensionObjectRow>();
+  for (const row of data.extensionObjects) {
+    const key = `${row.object_schema}.${row.object_name}`;
+    if (row.object_kind === "type") {
+      extensionTypes.set(key, row);
+    } else {
+      extensionFunctions.set(key, row);
+      if (row.is_visible) visibleExtensionFunctions.set(row.object_name, row);
     }
-    const entry = byType.get(key)!;
-    entry.labels.push(row.enumlabel);
   }
-  const lines: string[] = [];
-  for (const [key, { schema, labels }] of byType) {
-    const typname = key.split(".")[1];
-    const values = labels.map((l) => `'${l.replace(/'/g, "''")}'`).join(", ");
-    lines.push(`CREATE TYPE ${quoteId(schema)}.${quoteId(typname)} AS ENUM (${values});`);
+  return {
+    domains: new Map(data.domains.map((d) => [`${d.domain_schema}.${d.domain_name}`, d])),
+    compositeTypes: new Map(data.compositeTypes.map((t) => [`${t.type_schema}.${t.type_name}`, t])),
+    sequences: new Map(data.sequences.map((s) => [`${s.sequence_schema}.${s.sequence_name}`, s])),
+    extensionTypes,
+    extensionFunctions,
+    visibleExtensionFunctions,
+  };
+}
+
+/** Split a possibly qualified, possibly quoted name as printed in nextval('...'::regclass). */
+function parseQualifiedName(text: string, defaultSchema: string): { schema: string; name: string } {
+  const parts = text.match(/"(?:[^"]|"")*"|[^."]+/g) ?? [text];
+  const unquote = (part: string) => (part.startsWith('"') ? part.slice(1, -1).replace(/""/g, '"') : part);
+  return parts.length > 1
+    ? { schema: unquote(parts[0]!), name: unquote(parts[1]!) }
+    : { schema: defaultSchema, name: unquote(parts[0]!) };
+}
+
+/** A function call in an expression, capturing its possibly qualified, possibly quoted name. */
+const FUNCTION_CALL_PATTERN =
+  /((?:(?:"(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_$]*)\.)?(?:"(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_$]*))\s*\(/g;
+
+const SEQUENCE_TYPE_RANGES: Record<string, { min: string; max: string }> = {
+  smallint: { min: "-32768", max: "32767" },
+  integer: { min: "-2147483648", max: "2147483647" },
+  bigint: { min: "-9223372036854775808", max: "9223372036854775807" },
+};
+
+/** CREATE SEQUENCE with only the options that differ from what Postgres would pick for that type and direction. */
+function buildSequenceDdl(seq: SequenceRow): string {
+  const range = SEQUENCE_TYPE_RANGES[seq.data_type] ?? SEQUENCE_TYPE_RANGES.bigint!;
+  const ascending = !seq.increment_by.startsWith("-");
+  const defaultMin = ascending ? "1" : range.min;
+  const defaultMax = ascending ? range.max : "-1";
+  const options: string[] = [];
+  if (seq.data_type !== "bigint") options.push(`AS ${seq.data_type}`);
+  if (seq.start_value !== (ascending ? seq.min_value : seq.max_value)) options.push(`START WITH ${seq.start_value}`);
+  if (seq.increment_by !== "1") options.push(`INCREMENT BY ${seq.increment_by}`);
+  if (seq.min_value !== defaultMin) options.push(`MINVALUE ${seq.min_value}`);
+  if (seq.max_value !== defaultMax) options.push(`MAXVALUE ${seq.max_value}`);
+  if (seq.cache_size !== "1") options.push(`CACHE ${seq.cache_size}`);
+  if (seq.cycle) options.push("CYCLE");
+  const name = `${quoteId(seq.sequence_schema)}.${quoteId(seq.sequence_name)}`;
+  return `CREATE SEQUENCE ${name}${options.map((o) => ` ${o}`).join("")};`;
+}
+
+function buildDomainDdl(domain: DomainRow): string {
+  const parts = [
+    `CREATE DOMAIN ${quoteId(domain.domain_schema)}.${quoteId(domain.domain_name)} AS ${domain.base_type}`,
+  ];
+  if (domain.default_value != null) parts.push(`DEFAULT ${domain.default_value}`);
+  if (domain.not_null) parts.push("NOT NULL");
+  parts.push(...domain.checks);
+  return `${parts.join("\n  ")};`;
+}
+
+function buildCompositeTypeDdl(type: CompositeTypeRow): string {
+  const attributes = type.attributes.map((a) => `  ${quoteId(a.name)} ${a.type}`).join(",\n");
+  return `CREATE TYPE ${quoteId(type.type_schema)}.${quoteId(type.type_name)} AS (\n${attributes}\n);`;
+}
+
+/**
+ * Keys of the extensions, domains, composite types and sequences a table's columns rely on. Each object's
+ * DDL is added to `entries` once, however many tables use it; like enums, it is prepended when copying.
+ */
+function collectTableDependencies(
+  table: TableRow,
+  tableCols: ColumnRow[],
+  deps: DependencyIndex,
+  entries: Map<string, DependencyCacheEntry>,
+): string[] {
+  const keys = new Set<string>();
+  const use = (key: string, entry: () => DependencyCacheEntry) => {
+    if (!entries.has(key)) entries.set(key, entry());
+    keys.add(key);
+  };
+  const useExtension = (e: ExtensionObjectRow) =>
+    use(`extension:${e.extension_name}`, () => ({
+      kind: "extension",
+      ddl: `CREATE EXTENSION IF NOT EXISTS ${quoteId(e.extension_name)} WITH SCHEMA ${quoteId(e.extension_schema)};`,
+    }));
+  for (const col of tableCols) {
+    // Array columns report the array type (e.g. _citext); its element type is the one that matters here.
+    const udtName = col.data_type === "ARRAY" ? col.udt_name.replace(/^_/, "") : col.udt_name;
+    const udtKey = `${col.udt_schema}.${udtName}`;
+    const domainKey = col.domain_name ? `${col.domain_schema}.${col.domain_name}` : udtKey;
+    const domain = deps.domains.get(domainKey);
+    if (domain) use(`domain:${domainKey}`, () => ({ kind: "domain", ddl: buildDomainDdl(domain) }));
+    const composite = deps.compositeTypes.get(udtKey);
+    if (composite) use(`type:${udtKey}`, () => ({ kind: "type", ddl: buildCompositeTypeDdl(composite) }));
+    const extension = deps.extensionTypes.get(udtKey);
+    if (extension) useExtension(extension);
+    if (!col.column_default) continue;
+    for (const match of col.column_default.matchAll(/nextval\('((?:[^']|'')+)'::regclass\)/g)) {
+      const { schema, name } = parseQualifiedName(match[1]!.replace(/''/g, "'"), table.table_schema);
+      const seq = deps.sequences.get(`${schema}.${name}`) ?? deps.sequences.get(`public.${name}`);
+      if (seq) {
+        use(`sequence:${seq.sequence_schema}.${seq.sequence_name}`, () => ({
+          kind: "sequence",
+          ddl: buildSequenceDdl(seq),
+        }));
+      }
+    }
+    // Calls are printed schema-qualified unless the search_path resolves them, e.g. extensions.uuid_generate_v4().
+    for (const match of col.column_default.matchAll(FUNCTION_CALL_PATTERN)) {
+      const { schema, name } = parseQualifiedName(match[1]!, "");
+      const fn = schema ? deps.extensionFunctions.get(`${schema}.${name}`) : deps.visibleExtensionFunctions.get(name);
+      if (fn) useExtension(fn);
+    }
   }
-  return lines.join("\n");
+  return Array.from(keys);
 }
 
 function buildTableDdl(
@@ -76,7 +305,15 @@ function buildTableDdl(
   foreignKeys: ForeignKeyRow[],
   indexes: IndexRow[],
   enumTypeByUdt: Map<string, { schema: string; typname: string }>,
-): { tableDdl: string; usedEnumKeys: Set<string> } {
+  shardBuckets: Map<string, number>,
+  tableOptions: string,
+  viewDefinition: string | undefined,
+  foreignTable: ForeignTableRow | undefined,
+  comments: CommentRow[],
+  checks: CheckConstraintRow[],
+  generatedColumns: GeneratedColumnRow[],
+  partitionOf: InheritanceRow | undefined,
+): string {
   const tableCols = columns.filter((c) => c.table_schema === table.table_schema && c.table_name === table.table_name);
   const pkCols = primaryKeys
     .filter((p) => p.table_schema === table.table_schema && p.table_name === table.table_name)
@@ -105,22 +342,26 @@ function buildTableDdl(
     list.sort((a, b) => a.ordinal_position - b.ordinal_position);
   }
 
-  const usedEnumKeys = new Set<string>();
   const colLines: string[] = [];
   for (const col of tableCols) {
-    const udtKey = `${col.udt_schema}.${col.udt_name}`;
-    if (enumTypeByUdt.has(udtKey)) usedEnumKeys.add(udtKey);
     const typeStr = formatType(col, enumTypeByUdt);
     const nullStr = col.is_nullable === "YES" ? "NULL" : "NOT NULL";
     const defaultStr =
       col.column_default != null && col.column_default.trim() !== "" ? ` DEFAULT ${col.column_default}` : "";
+    const generatedClause = generatedColumnClause(generatedColumns.find((g) => g.column_name === col.column_name));
+    const generatedStr = generatedClause ? ` ${generatedClause}` : "";
     const fk = fkByColumn.get(col.column_name);
     const fkComment = fk ? ` -- FK: ${fk.ref_table_schema}.${fk.ref_table_name}.${fk.ref_column_name}` : "";
-    colLines.push(`  ${quoteId(col.column_name)} ${typeStr} ${nullStr}${defaultStr}${fkComment}`);
+    colLines.push(`  ${quoteId(col.column_name)} ${typeStr} ${nullStr}${defaultStr}${generatedStr}${fkComment}`);
   }
 
   if (pkCols.length > 0) {
-    colLines.push(`  PRIMARY KEY (${pkCols.map(quoteId).join(", ")})`);
+    const pkName = primaryKeys.find(
+      (p) => p.table_schema === table.table_schema && p.table_name === table.table_name,
+    )?.constraint_name;
+    const pkBuckets = pkName ? shardBuckets.get(pkName) : undefined;
+    const hashStr = pkBuckets != null ? ` USING HASH WITH (bucket_count = ${pkBuckets})` : "";
+    colLines.push(`  PRIMARY KEY (${pkCols.map(quoteId).join(", ")})${hashStr}`);
   }
   for (const cols of uniqueGroups.values()) {
     colLines.push(`  UNIQUE (${cols.map((c) => quoteId(c.column_name)).join(", ")})`);
@@ -130,16 +371,38 @@ function buildTableDdl(
     const refCols = fkList.map((f) => quoteId(f.ref_column_name)).join(", ");
     const first = fkList[0];
     colLines.push(
-      `  CONSTRAINT ${quoteId(first.constraint_name)} FOREIGN KEY (${cols}) REFERENCES ${quoteId(first.ref_table_schema)}.${quoteId(first.ref_table_name)} (${refCols})`,
+      `  CONSTRAINT ${quoteId(first.constraint_name)} FOREIGN KEY (${cols}) REFERENCES ${quoteId(first.ref_table_schema)}.${quoteId(first.ref_table_name)} (${refCols})${foreignKeyOptionsClause(first)}`,
     );
   }
+  for (const check of checks) {
+    colLines.push(`  CONSTRAINT ${quoteId(check.constraint_name)} ${check.definition}`);
+  }
 
   const qualifiedName = `${quoteId(table.table_schema)}.${quoteId(table.table_name)}`;
   let tableDdl: string;
-  if (table.table_type === "VIEW") {
-    tableDdl = `-- View: ${qualifiedName} (definition in DB)\nCREATE VIEW ${qualifiedName} AS\n  SELECT ${tableCols.map((c) => quoteId(c.column_name)).join(", ")} FROM ...;`;
+  if (table.table_type === "VIEW" || table.table_type === "MATERIALIZED VIEW") {
+    const keyword = table.table_type === "VIEW" ? "VIEW" : "MATERIALIZED VIEW";
+    const columnComment = `-- Columns: ${tableCols.map((c) => `${quoteId(c.column_name)} ${formatType(c, enumTypeByUdt)}`).join(", ")}`;
+    tableDdl = viewDefinition
+      ? `${columnComment}\nCREATE ${keyword} ${qualifiedName} AS\n${viewDefinition.trimEnd().replace(/;?$/, ";")}`
+      : `-- ${keyword === "VIEW" ? "View" : "Materialized view"}: ${qualifiedName} (definition in DB)\nCREATE ${keyword} ${qualifiedName} AS\n  SELECT ${tableCols.map((c) => quoteId(c.column_name)).join(", ")} FROM ...;`;
+  } else if (table.table_type === "FOREIGN") {
+    const serverStr = foreignTable ? `\nSERVER ${quoteId(foreignTable.server_name)}` : "";
+    const options = (foreignTable?.options ?? []).map((option) => {
+      const eq = option.indexOf("=");
+      return `${option.slice(0, eq)} '${option.slice(eq + 1).replace(/'/g, "''")}'`;
+    });
+    const optionsStr = options.length > 0 ? `\nOPTIONS (${options.join(", ")})` : "";
+    const wrapperComment = foreignTable ? `-- Foreign table via ${foreignTable.fdw_name}\n` : "";
+    tableDdl = `${wrapperComment}CREATE FOREIGN TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n)${serverStr}${optionsStr};`;
+  } else if (partitionOf?.partition_bound) {
+    // Partitions inherit columns and constraints from the parent, so only the bound is interesting.
+    const parentName = `${quoteId(partitionOf.parent_schema)}.${quoteId(partitionOf.parent_name)}`;
+    const optionsStr = tableOptions ? `\n${tableOptions}` : "";
+    tableDdl = `CREATE TABLE ${qualifiedName} PARTITION OF ${parentName}\n  ${partitionOf.partition_bound}${optionsStr};`;
   } else {
-    tableDdl = `CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n);`;
+    const optionsStr = tableOptions ? `\n${tableOptions}` : "";
+    tableDdl = `CREATE TABLE ${qualifiedName} (\n${colLines.join(",\n")}\n)${optionsStr};`;
   }
 
   const pkConstraintNames = new Set(
@@ -159,28 +422,219 @@ function buildTableDdl(
     if (uniqueConstraintNames.has(i.indexname)) return false;
     return true;
   });
-  const indexDdls = extraIndexes.map((i) => i.indexdef + ";").join("\n");
-  const fullDdl = indexDdls ? `${tableDdl}\n\n${indexDdls}` : tableDdl;
+  // Partition indexes are created from the parent's; repeating them per partition is noise.
+  const indexDdls = (partitionOf?.partition_bound ? [] : extraIndexes)
+    .map((i) => {
+      const buckets = shardBuckets.get(i.indexname);
+      if (buckets == null || /USING HASH/i.test(i.indexdef)) return i.indexdef + ";";
+      return `${i.indexdef} USING HASH WITH (bucket_count = ${buckets});`;
+    })
+    .join("\n");
+  const commentsDdl = buildCommentsDdl(table, comments);
+  const fullDdl = [tableDdl, commentsDdl, indexDdls].filter(Boolean).join("\n\n");
 
-  return { tableDdl: fullDdl, usedEnumKeys };
+  return fullDdl;
+}
+
+/** Redshift DISTSTYLE / DISTKEY / SORTKEY clauses for a table, in CREATE TABLE order. */
+function buildRedshiftTableOptions(table: TableRow, data: SchemaData): string {
+  const isTable = (r: { table_schema: string; table_name: string }) =>
+    r.table_schema === table.table_schema && r.table_name === table.table_name;
+  const diststyle = data.redshiftDistStyles.find(isTable)?.diststyle;
+  const keyColumns = data.redshiftKeyColumns.filter(isTable);
+  const parts: string[] = [];
+  if (diststyle != null) {
+    parts.push(`DISTSTYLE ${REDSHIFT_DISTSTYLES[Number(diststyle)] ?? "AUTO"}`);
+  }
+  const distKey = keyColumns.find((c) => c.is_distkey);
+  if (distKey) parts.push(`DISTKEY (${quoteId(distKey.column_name)})`);
+  const sortKeys = keyColumns
+    .filter((c) => Number(c.sortkey_ord) !== 0)
+    .sort((a, b) => Math.abs(Number(a.sortkey_ord)) - Math.abs(Number(b.sortkey_ord)));
+  if (sortKeys.length > 0) {
+    const interleaved = sortKeys.some((c) => Number(c.sortkey_ord) < 0);
+    parts.push(
+      `${interleaved ? "INTERLEAVED" : "COMPOUND"} SORTKEY (${sortKeys.map((c) => quoteId(c.column_name)).join(", ")})`,
+    );
+  }
+  return parts.join(" ");
+}
+
+/** PARTITION BY for partitioned tables and INHERITS for legacy inheritance children. */
+function buildInheritanceOptions(table: TableRow, data: SchemaData): string {
+  const isTable = (r: { table_schema: string; table_name: string }) =>
+    r.table_schema === table.table_schema && r.table_name === table.table_name;
+  const parts: string[] = [];
+  const parents = data.inheritance.filter((i) => isTable(i) && i.partition_bound == null);
+  if (parents.length > 0) {
+    parts.push(`INHERITS (${parents.map((p) => `${quoteId(p.parent_schema)}.${quoteId(p.parent_name)}`).join(", ")})`);
+  }
+  const partitioned = data.partitionedTables.find(isTable);
+  if (partitioned) parts.push(`PARTITION BY ${partitioned.partition_key}`);
+  return parts.join(" ");
+}
+
+const PARTITION_LIST_LIMIT = 10;
+
+/** List of a partitioned table's partitions as SQL comments, so the parent alone explains the layout. */
+function buildPartitionsComment(table: TableRow, data: SchemaData): string {
+  const children = data.inheritance.filter(
+    (i) => i.parent_schema === table.table_schema && i.parent_name === table.table_name && i.partition_bound != null,
+  );
+  if (children.length === 0) return "";
+  const lines = [`-- Partitions (${children.length}):`];
+  for (const child of children.slice(0, PARTITION_LIST_LIMIT)) {
+    lines.push(`--   ${quoteId(child.table_schema)}.${quoteId(child.table_name)} ${child.partition_bound}`);
+  }
+  if (children.length > PARTITION_LIST_LIMIT) {
+    lines.push(`--   … and ${children.length - PARTITION_LIST_LIMIT} more`);
+  }
+  return lines.join("\n");
+}
+
+/** Policy roles that are the default and can be left out of CREATE POLICY. */
+const DEFAULT_POLICY_ROLES = new Set(["public"]);
+
+/**
+ * Triggers, row-level security and grants for one table. Each category is its own section so the
+ * database settings can turn them on and off without re-syncing.
+ */
+function buildTableExtras(table: TableRow, data: SchemaData): Partial<Record<DdlExtraKind, string>> {
+  const isTable = (r: { table_schema: string; table_name: string }) =>
+    r.table_schema === table.table_schema && r.table_name === table.table_name;
+  const qualifiedName = `${quoteId(table.table_schema)}.${quoteId(table.table_name)}`;
+  const extras: Partial<Record<DdlExtraKind, string>> = {};
+
+  const triggerLines: string[] = [];
+  for (const trigger of data.triggers.filter(isTable)) {
+    triggerLines.push(`${trigger.definition.trimEnd()};`);
+    if (trigger.enabled === "D") {
+      triggerLines.push(`ALTER TABLE ${qualifiedName} DISABLE TRIGGER ${quoteId(trigger.trigger_name)};`);
+    }
+  }
+  if (triggerLines.length > 0) extras.triggers = triggerLines.join("\n");
+
+  const policyLines: string[] = [];
+  const rowSecurity = data.rowSecurity.find(isTable);
+  if (rowSecurity?.row_security) policyLines.push(`ALTER TABLE ${qualifiedName} ENABLE ROW LEVEL SECURITY;`);
+  if (rowSecurity?.force_row_security) policyLines.push(`ALTER TABLE ${qualifiedName} FORCE ROW LEVEL SECURITY;`);
+  for (const policy of data.policies.filter(isTable)) {
+    const parts = [`CREATE POLICY ${quoteId(policy.policy_name)} ON ${qualifiedName}`];
+    if (policy.permissive === "RESTRICTIVE") parts.push("AS RESTRICTIVE");
+    if (policy.command && policy.command !== "ALL") parts.push(`FOR ${policy.command}`);
+    const roles = (policy.roles ?? []).filter((role) => !DEFAULT_POLICY_ROLES.has(role));
+    if (roles.length > 0) parts.push(`TO ${roles.map(quoteId).join(", ")}`);
+    if (policy.using_expression) parts.push(`USING (${policy.using_expression})`);
+    if (policy.check_expression) parts.push(`WITH CHECK (${policy.check_expression})`);
+    policyLines.push(`${parts.join("\n  ")};`);
+  }
+  if (policyLines.length > 0) extras.policies = policyLines.join("\n");
+
+  const privilegesByGrantee = new Map<string, string[]>();
+  for (const grant of data.tableGrants.filter(isTable)) {
+    const key = `${grant.grantee}\u0000${grant.is_grantable ? "1" : "0"}`;
+    const list = privilegesByGrantee.get(key) ?? [];
+    list.push(grant.privilege_type);
+    privilegesByGrantee.set(key, list);
+  }
+  const grantLines = Array.from(privilegesByGrantee, ([key, privileges]) => {
+    const [grantee, grantable] = key.split("\u0000");
+    const granteeStr = grantee === "PUBLIC" ? "PUBLIC" : quoteId(grantee!);
+    const grantOption = grantable === "1" ? " WITH GRANT OPTION" : "";
+    return `GRANT ${privileges.join(", ")} ON ${qualifiedName} TO ${granteeStr}${grantOption};`;
+  });
+  if (grantLines.length > 0) extras.grants = grantLines.join("\n");
+
+  return extras;
+}
+
+/** Cache key for a routine; argument types are part of it because functions can be overloaded. */
+function routineKey(routine: RoutineRow): string {
+  return `${routine.routine_schema}.${routine.routine_name}(${routine.identity_arguments})`;
+}
+
+/** CREATE FUNCTION/PROCEDURE header without the body, for signature-only copies. */
+function buildRoutineSignature(routine: RoutineRow): string {
+  const keyword = routine.kind === "p" ? "PROCEDURE" : "FUNCTION";
+  const name = `${quoteId(routine.routine_schema)}.${quoteId(routine.routine_name)}`;
+  const returns = routine.result_type ? ` RETURNS ${routine.result_type}` : "";
+  return `CREATE ${keyword} ${name}(${routine.arguments})${returns}\n  LANGUAGE ${routine.language}; -- body omitted`;
+}
+
+/** Timescale hypertable summary as SQL comments (create_hypertable arguments vary across versions). */
+function buildHypertableComment(table: TableRow, data: SchemaData): string {
+  const hypertable = data.hypertables.find(
+    (h) => h.hypertable_schema === table.table_schema && h.hypertable_name === table.table_name,
+  );
+  if (!hypertable) return "";
+  const compression = hypertable.compression_enabled ? ", compression enabled" : "";
+  const lines = [`-- Hypertable: ${hypertable.num_chunks} chunks${compression}`];
+  for (const dim of data.hypertableDimensions) {
+    if (dim.hypertable_schema !== table.table_schema || dim.hypertable_name !== table.table_name) continue;
+    const interval = dim.time_interval ?? dim.integer_interval;
+    const detail =
+      interval != null ? `interval ${interval}` : dim.num_partitions != null ? `${dim.num_partitions} partitions` : "";
+    lines.push(
+      `-- Dimension: ${dim.dimension_type.toLowerCase()} on ${quoteId(dim.column_name)}${detail ? ` (${detail})` : ""}`,
+    );
+  }
+  return lines.join("\n");
 }
 
 export function buildSchemaDdl(data: SchemaData): {
   tableDdls: Map<string, string>;
-  tableTypes: Map<string, "table" | "view">;
+  tableTypes: Map<string, TableCacheEntry["type"]>;
+  tableParents: Map<string, string>;
+  signatures: Map<string, string>;
+  extras: Map<string, Partial<Record<DdlExtraKind, string>>>;
+  enums: Map<string, EnumCacheEntry>;
+  tableEnums: Map<string, string[]>;
+  dependencies: Map<string, DependencyCacheEntry>;
+  tableDependencies: Map<string, string[]>;
 } {
   const enumTypeByUdt = new Map<string, { schema: string; typname: string }>();
   for (const row of data.enums) {
     enumTypeByUdt.set(`${row.nspname}.${row.typname}`, { schema: row.nspname, typname: row.typname });
   }
 
+  // Array columns name the array type (_mood); the enum is its element type.
+  const enumUsedBy = new Map<string, string[]>();
+  const tableEnums = new Map<string, string[]>();
+  for (const col of data.columns) {
+    const udtKey = `${col.udt_schema}.${col.udt_name}`;
+    const elementKey = `${col.udt_schema}.${col.udt_name.replace(/^_/, "")}`;
+    const enumKey = enumTypeByUdt.has(udtKey) ? udtKey : enumTypeByUdt.has(elementKey) ? elementKey : undefined;
+    if (!enumKey) continue;
+    const tableKey = `${col.table_schema}.${col.table_name}`;
+    enumUsedBy.set(enumKey, [...(enumUsedBy.get(enumKey) ?? []), `${tableKey}.${col.column_name}`]);
+    const keys = tableEnums.get(tableKey) ?? [];
+    if (!keys.includes(enumKey)) tableEnums.set(tableKey, [...keys, enumKey]);
+  }
+
+  const deps = indexDependencies(data);
+  const dependencies = new Map<string, DependencyCacheEntry>();
+  const tableDependencies = new Map<string, string[]>();
+
   const tableDdls = new Map<string, string>();
-  const tableTypes = new Map<string, "table" | "view">();
+  const tableTypes = new Map<string, TableCacheEntry["type"]>();
+  const tableParents = new Map<string, string>();
+  const extras = new Map<string, Partial<Record<DdlExtraKind, string>>>();
+  const isTable = (table: TableRow) => (r: { table_schema: string; table_name: string }) =>
+    r.table_schema === table.table_schema && r.table_name === table.table_name;
 
   for (const table of data.tables) {
     const key = `${table.table_schema}.${table.table_name}`;
-    tableTypes.set(key, table.table_type === "VIEW" ? "view" : "table");
-    const { tableDdl, usedEnumKeys } = buildTableDdl(
+    tableTypes.set(key, TABLE_TYPE_KINDS[table.table_type] ?? "table");
+    const shardBuckets = new Map(
+      data.shardedIndexes
+        .filter((i) => i.table_schema === table.table_schema && i.table_name === table.table_name)
+        .map((i) => [i.index_name, Number(i.shard_bucket_count)]),
+    );
+    const tableOptions =
+      data.dialect === "redshift" ? buildRedshiftTableOptions(table, data) : buildInheritanceOptions(table, data);
+    const partitionOf = data.inheritance.find((i) => isTable(table)(i) && i.partition_bound != null);
+    if (partitionOf) tableParents.set(key, `${partitionOf.parent_schema}.${partitionOf.parent_name}`);
+    const tableDdl = buildTableDdl(
       table,
       data.columns,
       data.primaryKeys,
@@ -188,11 +642,42 @@ export function buildSchemaDdl(data: SchemaData): {
       data.foreignKeys,
       data.indexes,
       enumTypeByUdt,
+      shardBuckets,
+      tableOptions,
+      data.viewDefinitions.find(isTable(table))?.definition,
+      data.foreignTables.find(isTable(table)),
+      data.comments.filter(isTable(table)),
+      data.checkConstraints.filter(isTable(table)),
+      data.generatedColumns.filter(isTable(table)),
+      partitionOf,
     );
-    const enumsDdl = usedEnumKeys.size > 0 ? buildEnumsDdlForTypes(data.enums, usedEnumKeys) : "";
-    const fullDdl = enumsDdl ? `${enumsDdl}\n\n${tableDdl}` : tableDdl;
-    tableDdls.set(key, fullDdl);
+    const dependencyKeys = collectTableDependencies(table, data.columns.filter(isTable(table)), deps, dependencies);
+    if (dependencyKeys.length > 0) tableDependencies.set(key, dependencyKeys);
+    const extraComments = [buildPartitionsComment(table, data), buildHypertableComment(table, data)]
+      .filter(Boolean)
+      .join("\n\n");
+    tableDdls.set(key, extraComments ? `${tableDdl}\n\n${extraComments}` : tableDdl);
+    const tableExtras = buildTableExtras(table, data);
+    if (Object.keys(tableExtras).length > 0) extras.set(key, tableExtras);
+  }
+
+  const signatures = new Map<string, string>();
+  for (const routine of data.routines) {
+    const key = routineKey(routine);
+    tableTypes.set(key, routine.kind === "p" ? "procedure" : "function");
+    tableDdls.set(key, `${routine.definition.trimEnd()};`);
+    signatures.set(key, buildRoutineSignature(routine));
   }
 
-  return { tableDdls, tableTypes };
+  return {
+    tableDdls,
+    tableTypes,
+    tableParents,
+    signatures,
+    extras,
+    enums: buildEnumEntries(data.enums, enumUsedBy),
+    tableEnums,
+    dependencies,
+    tableDependencies,
+  };
 }
@@ -0,0 +1,68 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { DuckdbConnection } from "./duckdb-schema";
+
+const execFileAsync = promisify(execFile);
+
+/** Catalog queries on a large folder of files can take a while; a hung CLI should not hang the sync. */
+const QUERY_TIMEOUT_MS = 60_000;
+
+/** Raycast does not inherit the login shell's PATH, so the usual install locations are checked too. */
+const CLI_LOCATIONS = [
+  "/opt/homebrew/bin",
+  "/usr/local/bin",
+  path.join(os.homedir(), ".duckdb", "cli", "latest"),
+  path.join(os.homedir(), "AppData", "Local", "Microsoft", "WinGet", "Links"),
+];
+
+export function findDuckdbCli(): string | null {
+  const names = process.platform === "win32" ? ["duckdb.exe"] : ["duckdb"];
+  const dirs = [...(process.env.PATH ?? "").split(path.delimiter).filter(Boolean), ...CLI_LOCATIONS];
+  for (const dir of dirs) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * DuckdbConnection backed by the duckdb CLI. Native Node bindings cannot be bundled into a Raycast
+ * extension, so each query runs in a fresh CLI process: statements passed to run() (e.g. the views of
+ * folder mode) are replayed first, and results are written by COPY ... (FORMAT JSON) to a temp file,
+ * which keeps lists and numbers typed instead of going through the CLI's display formatting.
+ */
+export function openDuckdbCli(cliPath: string, database: string | null): DuckdbConnection {
+  const setup: string[] = [];
+  const exec = async (statements: string[]) => {
+    const args = database ? ["-readonly", database] : [":memory:"];
+    await execFileAsync(cliPath, [...args, "-bail", "-c", statements.map((s) => `${s.trim()};`).join("\n")], {
+      timeout: QUERY_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  };
+  return {
+    async run(sql) {
+      setup.push(sql);
+    },
+    async all(sql) {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "duckdb-schema-"));
+      const out = path.join(dir, "rows.json");
+      try {
+        await exec([...setup, `COPY (${sql.trim()}) TO ${quoteSqlString(out)} (FORMAT JSON, ARRAY true)`]);
+        const text = fs.existsSync(out) ? fs.readFileSync(out, "utf-8").trim() : "";
+        return text ? (JSON.parse(text) as unknown[]) : [];
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
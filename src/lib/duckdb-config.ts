@@ -0,0 +1,26 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export type DuckdbSource = {
+  /** "database" for a .duckdb file, "folder" for a directory of Parquet/CSV files. */
+  kind: "database" | "folder";
+  path: string;
+};
+
+/**
+ * Resolve a DuckDB "connection string" (a path, optionally starting with ~ or duckdb://)
+ * to a database file or a folder of data files. Returns null when the path does not exist.
+ */
+export function resolveDuckdbSource(connectionString: string): DuckdbSource | null {
+  let p = connectionString.trim();
+  if (p.startsWith("duckdb://")) p = p.slice("duckdb://".length);
+  if (p === "~" || p.startsWith("~/")) p = path.join(os.homedir(), p.slice(1));
+  const resolved = path.resolve(p);
+  try {
+    const stat = fs.statSync(resolved);
+    return { kind: stat.isDirectory() ? "folder" : "database", path: resolved };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Minimal connection surface used for catalog queries, implemented over the duckdb CLI in duckdb-cli.ts
+ * without tying the schema reader to how DuckDB is run.
+ */
+export interface DuckdbConnection {
+  run(sql: string): Promise<void>;
+  /** Rows as plain JSON objects; lists stay arrays. */
+  all(sql: string): Promise<unknown[]>;
+}
+
+export type DuckdbTableRow = {
+  table_schema: string;
+  table_name: string;
+  table_type: string;
+};
+
+export type DuckdbViewRow = {
+  schema_name: string;
+  view_name: string;
+  sql: string | null;
+};
+
+export type DuckdbColumnRow = {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  ordinal_position: number;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+};
+
+export type DuckdbConstraintRow = {
+  schema_name: string;
+  table_name: string;
+  constraint_index: number;
+  constraint_type: string;
+  constraint_text: string;
+  constraint_column_names: string[];
+  referenced_table: string | null;
+  referenced_column_names: string[] | null;
+};
+
+export type DuckdbIndexRow = {
+  schema_name: string;
+  table_name: string;
+  index_name: string;
+  sql: string | null;
+};
+
+export type DuckdbSchemaData = {
+  tables: DuckdbTableRow[];
+  views: DuckdbViewRow[];
+  columns: DuckdbColumnRow[];
+  constraints: DuckdbConstraintRow[];
+  indexes: DuckdbIndexRow[];
+  /** Views registered over data files in folder mode, keyed by view name, valued by file path. */
+  fileSources: Map<string, string>;
+};
+
+const DATA_FILE_READERS: Record<string, string> = {
+  ".parquet": "read_parquet",
+  ".csv": "read_csv",
+  ".tsv": "read_csv",
+};
+
+const TABLES_QUERY = `
+  SELECT table_schema, table_name, table_type
+  FROM information_schema.tables
+  WHERE table_catalog = current_database()
+    AND table_schema NOT IN ('information_schema', 'pg_catalog')
+  ORDER BY table_schema, table_name
+`;
+
+const VIEWS_QUERY = `
+  SELECT schema_name, view_name, sql
+  FROM duckdb_views()
+  WHERE NOT internal
+    AND database_name = current_database()
+  ORDER BY schema_name, view_name
+`;
+
+const COLUMNS_QUERY = `
+  SELECT table_schema, table_name, column_name, ordinal_position, data_type, is_nullable, column_default
+  FROM information_schema.columns
+  WHERE table_catalog = current_database()
+    AND table_schema NOT IN ('information_schema', 'pg_catalog')
+  ORDER BY table_schema, table_name, ordinal_position
+`;
+
+const CONSTRAINTS_QUERY = `
+  SELECT schema_name, table_name, constraint_index, constraint_type, constraint_text,
+         constraint_column_names, referenced_table, referenced_column_names
+  FROM duckdb_constraints()
+  WHERE database_name = current_database()
+    AND constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY', 'CHECK')
+  ORDER BY schema_name, table_name, constraint_index
+`;
+
+const INDEXES_QUERY = `
+  SELECT schema_name, table_name, index_name, sql
+  FROM duckdb_indexes()
+  WHERE database_name = current_database()
+  ORDER BY schema_name, table_name, index_name
+`;
+
+function quoteSqlId(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Register one view per Parquet/CSV file in the folder (named after the file) so that the
+ * folder can be read through information_schema like a database. Returns view name → file path.
+ */
+export async function registerFileSources(conn: DuckdbConnection, folder: string): Promise<Map<string, string>> {
+  const fileSources = new Map<string, string>();
+  const entries = fs.readdirSync(folder, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const ext = path.extname(entry.name).toLowerCase();
+    const reader = DATA_FILE_READERS[ext];
+    if (!reader) continue;
+    const viewName = path.basename(entry.name, path.extname(entry.name));
+    if (fileSources.has(viewName)) continue;
+    const filePath = path.join(folder, entry.name);
+    await conn.run(`CREATE VIEW ${quoteSqlId(viewName)} AS SELECT * FROM ${reader}(${quoteSqlString(filePath)})`);
+    fileSources.set(viewName, filePath);
+  }
+  return fileSources;
+}
+
+export async function fetchDuckdbSchemaData(
+  conn: DuckdbConnection,
+  fileSources: Map<string, string> = new Map(),
+): Promise<DuckdbSchemaData> {
+  // Each query is its own CLI process, so the catalog queries are issued sequentially.
+  const rows = (sql: string): Promise<unknown[]> => conn.all(sql);
+  const tables = (await rows(TABLES_QUERY)) as DuckdbTableRow[];
+  const views = (await rows(VIEWS_QUERY)) as DuckdbViewRow[];
+  const columns = (await rows(COLUMNS_QUERY)) as DuckdbColumnRow[];
+  const constraints = (await rows(CONSTRAINTS_QUERY)) as DuckdbConstraintRow[];
+  const indexes = (await rows(INDEXES_QUERY)) as DuckdbIndexRow[];
+
+  return { tables, views, columns, constraints, indexes, fileSources };
+}
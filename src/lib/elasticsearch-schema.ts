@@ -0,0 +1,113 @@
+export type FieldMapping = {
+  type?: string;
+  properties?: Record<string, FieldMapping>;
+  fields?: Record<string, FieldMapping>;
+  [setting: string]: unknown;
+};
+
+export type IndexMappings = {
+  dynamic?: unknown;
+  properties?: Record<string, FieldMapping>;
+  [typeName: string]: unknown;
+};
+
+export type CatIndexRow = {
+  index: string;
+  health?: string;
+  status?: string;
+  "docs.count"?: string;
+  "store.size"?: string;
+};
+
+export type AliasInfo = {
+  filter?: unknown;
+  is_write_index?: boolean;
+};
+
+export type AnalysisComponent = {
+  type?: string;
+  tokenizer?: string;
+  filter?: string[];
+  char_filter?: string[];
+};
+
+export type AnalysisSettings = Record<string, Record<string, AnalysisComponent> | undefined>;
+
+export type ElasticsearchSchemaData = {
+  clusterName: string;
+  /** GET /_mapping, keyed by index name. */
+  mappings: Record<string, { mappings?: IndexMappings }>;
+  /** GET /_cat/indices rows; empty when the endpoint is not allowed. */
+  indexStats: CatIndexRow[];
+  /** GET /_alias, keyed by index name. */
+  aliases: Record<string, { aliases?: Record<string, AliasInfo> }>;
+  /** GET /_settings filtered to analysis settings, keyed by index name. */
+  settings: Record<string, { settings?: { index?: { analysis?: AnalysisSettings } } }>;
+};
+
+type ElasticsearchConnection = {
+  baseUrl: string;
+  headers: Record<string, string>;
+};
+
+/**
+ * Parse an Elasticsearch/OpenSearch URL. Credentials in the URL are sent as Basic auth;
+ * an `apiKey` query parameter is sent as an ApiKey authorization header instead.
+ */
+function parseConnection(connectionString: string): ElasticsearchConnection {
+  const url = new URL(connectionString.trim());
+  const headers: Record<string, string> = { Accept: "application/json" };
+  const apiKey = url.searchParams.get("apiKey");
+  if (apiKey) {
+    headers.Authorization = `ApiKey ${apiKey}`;
+  } else if (url.username) {
+    const user = decodeURIComponent(url.username);
+    const password = decodeURIComponent(url.password);
+    headers.Authorization = `Basic ${Buffer.from(`${user}:${password}`).toString("base64")}`;
+  }
+  const basePath = url.pathname.replace(/\/$/, "");
+  return { baseUrl: `${url.protocol}//${url.host}${basePath}`, headers };
+}
+
+async function getJson<T>(conn: ElasticsearchConnection, path: string): Promise<T> {
+  const res = await fetch(`${conn.baseUrl}${path}`, {
+    headers: conn.headers,
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) {
+    const text = (await res.text()).trim();
+    throw new Error(`${path}: ${text || `HTTP ${res.status}`}`);
+  }
+  return (await res.json()) as T;
+}
+
+/** Optional endpoints (cluster info, _cat, aliases, settings) must not fail the whole sync. */
+async function getJsonOrNull<T>(conn: ElasticsearchConnection, path: string): Promise<T | null> {
+  try {
+    return await getJson<T>(conn, path);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch Elasticsearch/OpenSearch schema data: `_mapping` for every index, plus cluster name, aliases,
+ * stats and analysis settings when available. Rendered by buildElasticsearchSchemaDdl.
+ */
+export async function fetchElasticsearchSchemaData(connectionString: string): Promise<ElasticsearchSchemaData> {
+  const conn = parseConnection(connectionString);
+  const [mappings, clusterInfo, indexStats, aliases, settings] = await Promise.all([
+    getJson<ElasticsearchSchemaData["mappings"]>(conn, "/_mapping"),
+    getJsonOrNull<{ cluster_name?: string }>(conn, "/"),
+    getJsonOrNull<CatIndexRow[]>(conn, "/_cat/indices?format=json&h=index,health,status,docs.count,store.size"),
+    getJsonOrNull<ElasticsearchSchemaData["aliases"]>(conn, "/_alias"),
+    getJsonOrNull<ElasticsearchSchemaData["settings"]>(conn, "/_settings?filter_path=*.settings.index.analysis"),
+  ]);
+  return {
+    clusterName: clusterInfo?.cluster_name || "elasticsearch",
+    mappings,
+    indexStats: indexStats ?? [],
+    aliases: aliases ?? {},
+    settings: settings ?? {},
+  };
+}
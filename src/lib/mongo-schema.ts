@@ -1,137 +1,532 @@
-import { MongoClient, type Document } from "mongodb";
+import { MongoClient, ObjectId, type Db, type Document } from "mongodb";
 
-const SAMPLE_SIZE = 5;
+/** Nesting below this depth is not walked, so recursive or very deep documents stay readable. */
+const MAX_FIELD_DEPTH = 8;
+/** Documents with dynamic keys (maps keyed by id or date) would otherwise produce a path per key. */
+const MAX_FIELD_PATHS = 500;
 
-export type MongoCollectionDdl = {
-  tableDdls: Map<string, string>;
-  tableTypes: Map<string, "table" | "view">;
+/** Sampled values checked against another collection's _ids, per field. */
+const MAX_REFERENCE_VALUES = 20;
+/** References below this confidence are dropped. */
+const MIN_REFERENCE_CONFIDENCE = 0.3;
+/** Time spent on _id lookups per database; paths left unchecked when it runs out are listed in the output. */
+export const REFERENCE_LOOKUP_BUDGET_MS = 30_000;
+
+/** bsonType names, as used in $jsonSchema, for each BSON wrapper class the driver returns. */
+const BSON_TYPE_NAMES: Record<string, string> = {
+  ObjectId: "objectId",
+  Decimal128: "decimal",
+  Long: "long",
+  Int32: "int",
+  Double: "double",
+  Binary: "binData",
+  Timestamp: "timestamp",
+  BSONRegExp: "regex",
+  BSONSymbol: "symbol",
+  Code: "javascript",
+  DBRef: "dbRef",
+  MinKey: "minKey",
+  MaxKey: "maxKey",
 };
 
-/**
- * Infer a simple field-type summary from sample documents.
- */
-function getValueTypeName(value: unknown): string {
+export type MongoFieldStats = {
+  /** Dotted path; array elements are written as "[]", e.g. "items[].sku". */
+  path: string;
+  /** Sampled documents in which the path appears at least once. */
+  count: number;
+  /** bsonType name -> sampled documents in which the path has that type at least once. */
+  types: Record<string, number>;
+};
+
+/** One field in the unified model: what $jsonSchema declares, merged with what the sample shows. */
+export type MongoField = {
+  path: string;
+  /** Sampled documents in which the path appears; 0 for fields only the validator declares. */
+  count: number;
+  /** bsonType name -> sampled documents in which the path has that type. */
+  sampledTypes: Record<string, number>;
+  /** bsonType/type as written in $jsonSchema; unset when the validator does not describe the field. */
+  declaredTypes?: string[];
+  /** Listed in its parent's $jsonSchema "required". */
+  required: boolean;
+  description?: string;
+  enumValues?: unknown[];
+  /** Where the validator and the sample disagree, e.g. "required but missing from 3 of 100 sampled documents". */
+  mismatches: string[];
+};
+
+/** A field that looks like it holds another collection's _id; Mongo has no foreign keys to read. */
+export type MongoInferredReference = {
+  /** Field path in the referencing collection, e.g. "userId" or "items[].productId". */
+  path: string;
+  /** Referenced collection in the same database. */
+  collection: string;
+  /** 0-1: 0.6 weighted by the share of checked values found as _ids, plus 0.4 when the name matches. */
+  confidence: number;
+  checkedValues: number;
+  matchedValues: number;
+  /** The field name follows the <collection>Id / <collection>_id convention. */
+  nameMatch: boolean;
+};
+
+/** Shard key of a sharded collection, from config.collections. */
+export type MongoShardKey = {
+  key: Document;
+  unique: boolean;
+};
+
+export type MongoCollectionInfo = {
+  database: string;
+  name: string;
+  type: "table" | "view";
+  /** listCollections options (validator, viewOn, timeseries, capped, ...). */
+  options: Document;
+  indexes: Document[];
+  sampledCount: number;
+  /** In order of first appearance, so parents come before their nested paths. */
+  fields: MongoFieldStats[];
+  /** True when the collection had more distinct paths than MAX_FIELD_PATHS. */
+  fieldsTruncated: boolean;
+  references: MongoInferredReference[];
+  /** Id-like paths not checked against every candidate collection before REFERENCE_LOOKUP_BUDGET_MS ran out. */
+  uncheckedReferencePaths: string[];
+  shardKey?: MongoShardKey;
+};
+
+export type MongoSchemaData = {
+  collections: MongoCollectionInfo[];
+};
+
+export type MongoSyncOptions = {
+  sampleSize: number;
+  /** Databases to sync; unset uses defaultMongoDatabases. */
+  databases?: string[];
+};
+
+export type MongoDatabaseInfo = {
+  name: string;
+  sizeBytes: number | null;
+};
+
+/** Internal databases present on every deployment; only synced when chosen explicitly. */
+export const MONGO_SYSTEM_DATABASES = ["admin", "local", "config"];
+
+function bsonTypeName(value: unknown): string {
   if (value === null) return "null";
-  if (value instanceof Date) return "Date";
+  if (value === undefined) return "undefined";
+  if (value instanceof Date) return "date";
   if (Array.isArray(value)) return "array";
-  if (typeof value === "object" && value !== null) {
-    const name = (value as { constructor?: { name?: string } }).constructor?.name;
-    if (name) return name;
+  if (typeof value === "object") {
+    const bsontype = (value as { _bsontype?: string })._bsontype;
+    if (bsontype) return BSON_TYPE_NAMES[bsontype] ?? bsontype;
     return "object";
   }
+  if (typeof value === "boolean") return "bool";
   return typeof value;
 }
 
-function inferFieldsFromSamples(docs: Document[]): string[] {
-  const fieldTypes = new Map<string, Set<string>>();
+/** Record every path and type in one value, descending into sub-documents and array elements. */
+function collectPaths(value: unknown, path: string, depth: number, found: Map<string, Set<string>>): void {
+  const type = bsonTypeName(value);
+  const types = found.get(path) ?? new Set<string>();
+  types.add(type);
+  found.set(path, types);
+  if (depth >= MAX_FIELD_DEPTH) return;
+  if (type === "object") {
+    for (const [key, child] of Object.entries(value as Document)) {
+      collectPaths(child, `${path}.${key}`, depth + 1, found);
+    }
+  } else if (type === "array") {
+    for (const element of value as unknown[]) {
+      collectPaths(element, `${path}[]`, depth + 1, found);
+    }
+  }
+}
+
+/**
+ * Per-path presence and type frequencies across sampled documents. Each document counts once per
+ * path and type, however many array elements matched.
+ */
+export function inferFieldStats(docs: Document[]): { fields: MongoFieldStats[]; truncated: boolean } {
+  const stats = new Map<string, MongoFieldStats>();
+  let truncated = false;
   for (const doc of docs) {
+    const found = new Map<string, Set<string>>();
     for (const [key, value] of Object.entries(doc)) {
-      if (!fieldTypes.has(key)) fieldTypes.set(key, new Set());
-      fieldTypes.get(key)!.add(getValueTypeName(value));
+      collectPaths(value, key, 1, found);
+    }
+    for (const [path, types] of found) {
+      let field = stats.get(path);
+      if (!field) {
+        if (stats.size >= MAX_FIELD_PATHS) {
+          truncated = true;
+          continue;
+        }
+        field = { path, count: 0, types: {} };
+        stats.set(path, field);
+      }
+      field.count++;
+      for (const type of types) field.types[type] = (field.types[type] ?? 0) + 1;
     }
   }
-  const lines: string[] = [];
-  for (const [field, types] of Array.from(fieldTypes.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
-    const typeStr = Array.from(types).sort().join(" | ");
-    lines.push(`  ${field}: ${typeStr}`);
+  return { fields: Array.from(stats.values()), truncated };
+}
+
+/** Sampled bsonType names covered by each $jsonSchema type alias. */
+const SCHEMA_TYPE_ALIASES: Record<string, string[]> = {
+  number: ["int", "long", "double", "decimal"],
+  integer: ["int", "long"],
+  boolean: ["bool"],
+};
+
+type DeclaredField = Pick<MongoField, "declaredTypes" | "required" | "description" | "enumValues">;
+
+function schemaTypes(schema: Document): string[] | undefined {
+  const raw: unknown = schema.bsonType ?? schema.type;
+  if (raw == null) return undefined;
+  return (Array.isArray(raw) ? raw : [raw]).map(String);
+}
+
+/**
+ * Walk $jsonSchema properties and array items into the same paths inferFieldStats produces.
+ * Paths whose properties are closed with additionalProperties: false are added to closedPaths ("" is the root).
+ */
+function collectDeclaredFields(
+  schema: Document,
+  prefix: string,
+  depth: number,
+  out: Map<string, DeclaredField>,
+  closedPaths: Set<string>,
+): void {
+  if (depth > MAX_FIELD_DEPTH) return;
+  const required = new Set(Array.isArray(schema.required) ? schema.required.map(String) : []);
+  if (schema.additionalProperties === false) closedPaths.add(prefix);
+  const declare = (path: string, child: Document, isRequired: boolean) => {
+    out.set(path, {
+      declaredTypes: schemaTypes(child),
+      required: isRequired,
+      description: typeof child.description === "string" ? child.description : undefined,
+      enumValues: Array.isArray(child.enum) ? child.enum : undefined,
+    });
+    collectDeclaredFields(child, path, depth + 1, out, closedPaths);
+  };
+  for (const [key, child] of Object.entries((schema.properties as Document | undefined) ?? {})) {
+    if (child && typeof child === "object")
+      declare(prefix ? `${prefix}.${key}` : key, child as Document, required.has(key));
   }
-  return lines;
+  const items = schema.items as unknown;
+  if (prefix && items && typeof items === "object" && !Array.isArray(items))
+    declare(`${prefix}[]`, items as Document, false);
+}
+
+/** "items[].sku" -> "items[]", "items[]" -> "items", "address.city" -> "address", "name" -> "" (the document). */
+function parentPath(path: string): string {
+  if (path.endsWith("[]")) return path.slice(0, -2);
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? "" : path.slice(0, dot);
 }
 
 /**
- * Build a human-readable "DDL" string for a MongoDB collection:
- * indexes + optional validator/$jsonSchema + inferred fields from sample.
+ * Merge the collection's $jsonSchema validator with its sampled field stats into one list of fields.
+ * Sampled paths keep their order; fields only the validator declares follow their parent. Mismatches are
+ * only reported when there are samples to compare against.
  */
-function buildCollectionDdl(
-  collectionName: string,
-  indexes: Document[],
-  validator: Document | undefined,
-  sampleFields: string[],
-): string {
-  const sections: string[] = [];
-
-  sections.push(`# Collection: ${collectionName}`);
-  sections.push("");
-
-  if (indexes.length > 0) {
-    sections.push("## Indexes");
-    for (const idx of indexes) {
-      const name = (idx.name as string) ?? "(unnamed)";
-      const key = idx.key as Document;
-      const keyStr = JSON.stringify(key);
-      const extra: string[] = [];
-      if (idx.unique) extra.push("unique");
-      if (idx.expireAfterSeconds != null) extra.push(`expireAfterSeconds: ${idx.expireAfterSeconds}`);
-      const suffix = extra.length > 0 ? ` (${extra.join(", ")})` : "";
-      sections.push(`- \`${name}\`: ${keyStr}${suffix}`);
-    }
-    sections.push("");
+export function buildMongoFieldModel(collection: MongoCollectionInfo): MongoField[] {
+  const jsonSchema = (collection.options.validator as Document | undefined)?.$jsonSchema as Document | undefined;
+  const declared = new Map<string, DeclaredField>();
+  const closedPaths = new Set<string>();
+  if (jsonSchema) collectDeclaredFields(jsonSchema, "", 1, declared, closedPaths);
+
+  const sampledCounts = new Map(collection.fields.map((f) => [f.path, f.count]));
+  const presentIn = (path: string) => (path === "" ? collection.sampledCount : (sampledCounts.get(path) ?? 0));
+
+  const fields: MongoField[] = collection.fields.map((stats) => ({
+    path: stats.path,
+    count: stats.count,
+    sampledTypes: stats.types,
+    required: false,
+    mismatches: [],
+    ...declared.get(stats.path),
+  }));
+  for (const [path, field] of declared) {
+    if (sampledCounts.has(path)) continue;
+    const parent = parentPath(path);
+    const after = parent
+      ? fields.findLastIndex(
+          (f) => f.path === parent || f.path.startsWith(`${parent}.`) || f.path.startsWith(`${parent}[]`),
+        )
+      : -1;
+    const entry: MongoField = { path, count: 0, sampledTypes: {}, mismatches: [], ...field };
+    fields.splice(after === -1 ? fields.length : after + 1, 0, entry);
   }
 
-  if (validator && Object.keys(validator).length > 0) {
-    sections.push("## Schema validation");
-    sections.push("```json");
-    sections.push(JSON.stringify(validator, null, 2));
-    sections.push("```");
-    sections.push("");
+  if (collection.sampledCount === 0) return fields;
+  for (const field of fields) {
+    const parent = parentPath(field.path);
+    const parentCount = presentIn(parent);
+    if (field.required && field.count < parentCount) {
+      field.mismatches.push(
+        `required but missing from ${parentCount - field.count} of ${parentCount} sampled documents`,
+      );
+    }
+    if (field.declaredTypes) {
+      const allowed = new Set(field.declaredTypes.flatMap((t) => SCHEMA_TYPE_ALIASES[t] ?? [t]));
+      for (const [type, count] of Object.entries(field.sampledTypes)) {
+        if (!allowed.has(type))
+          field.mismatches.push(
+            `${type} in ${count} sampled documents, validator allows ${field.declaredTypes.join(" | ")}`,
+          );
+      }
+    }
+    if (jsonSchema && field.count > 0 && !declared.has(field.path) && closedPaths.has(parent) && field.path !== "_id") {
+      field.mismatches.push("not declared, but the validator sets additionalProperties: false");
+    }
   }
+  return fields;
+}
 
-  if (sampleFields.length > 0) {
-    sections.push("## Inferred fields (from sample)");
-    sections.push(...sampleFields);
+/** ObjectId and string values per path, the only types worth checking against _ids. */
+function collectIdLikeValues(value: unknown, path: string, depth: number, out: Map<string, unknown[]>): void {
+  if (depth > MAX_FIELD_DEPTH) return;
+  if (value instanceof ObjectId || typeof value === "string") {
+    const values = out.get(path) ?? [];
+    const seen = values.some((v) => String(v) === String(value));
+    if (!seen && values.length < MAX_REFERENCE_VALUES) values.push(value);
+    out.set(path, values);
+  } else if (Array.isArray(value)) {
+    for (const element of value) collectIdLikeValues(element, `${path}[]`, depth + 1, out);
+  } else if (value !== null && typeof value === "object" && !(value instanceof Date) && !("_bsontype" in value)) {
+    for (const [key, child] of Object.entries(value as Document)) {
+      collectIdLikeValues(child, `${path}.${key}`, depth + 1, out);
+    }
   }
+}
+
+function normalizeCollectionName(name: string): string {
+  return name.toLowerCase().replace(/[_-]/g, "");
+}
 
-  return sections.join("\n").trimEnd();
+/** Collection named by a "userId" / "user_id" / "tagIds" style field, matching singular or plural spellings. */
+function collectionForFieldName(path: string, collectionNames: string[]): string | undefined {
+  const last = path.replace(/\[\]/g, "").split(".").pop() ?? "";
+  const base = /^(.+?)(?:_id|_ids|_ID|Id|Ids|ID|IDs)$/.exec(last)?.[1];
+  if (!base) return undefined;
+  const b = normalizeCollectionName(base);
+  const spellings = new Set([b, `${b}s`, `${b}es`, b.replace(/y$/, "ies")]);
+  return collectionNames.find((name) => spellings.has(normalizeCollectionName(name)));
 }
 
 /**
- * Fetch MongoDB schema: list collections, indexes, optional validator and sample docs;
- * return the same shape as Postgres buildSchemaDdl for cache compatibility.
+ * Look for fields holding other collections' _ids: sampled ObjectId/string values are looked up in the
+ * candidate collection, and "<collection>Id" names add confidence. String fields are only checked against
+ * the collection their name points to; ObjectIds are globally unique, so any collection with ObjectId _ids
+ * may match, including the collection itself (parentId, managerId). The named collection is checked first
+ * and wins if any value is found there; otherwise every other candidate is tried, stopping at the first
+ * where every value is found. Each lookup is one indexed _id $in count; once `deadline` passes, the paths
+ * whose candidates were not all tried are returned as unchecked.
  */
-export async function fetchMongoSchema(connectionString: string): Promise<MongoCollectionDdl> {
-  const client = new MongoClient(connectionString, { serverSelectionTimeoutMS: 10000 });
-  await client.connect();
-  try {
-    const db = client.db();
-    const dbName = db.databaseName;
-    const tableDdls = new Map<string, string>();
-    const tableTypes = new Map<string, "table" | "view">();
-
-    const listOptions = { nameOnly: false as const };
-    const collectionsCursor = db.listCollections({}, listOptions);
-    const collInfos = await collectionsCursor.toArray();
-
-    for (const info of collInfos) {
-      const name = info.name as string;
-      const type = (info.type as string) === "view" ? "view" : "table";
-      const key = `${dbName}.${name}`;
-      tableTypes.set(key, type);
-
-      const options = info.options as Document | undefined;
-      const validator = options?.validator as Document | undefined;
-
-      const collection = db.collection(name);
-      let indexes: Document[] = [];
-      let sampleFields: string[] = [];
+async function inferReferences(
+  db: Db,
+  collection: MongoCollectionInfo,
+  sample: Document[],
+  collections: MongoCollectionInfo[],
+  deadline: number,
+): Promise<{ references: MongoInferredReference[]; unchecked: string[] }> {
+  const valuesByPath = new Map<string, unknown[]>();
+  for (const doc of sample) {
+    for (const [key, value] of Object.entries(doc)) {
+      if (key !== "_id") collectIdLikeValues(value, key, 1, valuesByPath);
+    }
+  }
+  const targets = collections.filter((c) => c.type === "table");
+  const idTypes = (c: MongoCollectionInfo) => Object.keys(c.fields.find((f) => f.path === "_id")?.types ?? {});
+  const references: MongoInferredReference[] = [];
+  const unchecked: string[] = [];
+  for (const [path, values] of valuesByPath) {
+    const named = collectionForFieldName(
+      path,
+      targets.map((c) => c.name),
+    );
+    const isObjectId = values.some((v) => v instanceof ObjectId);
+    const checkable = values.filter((v) => (isObjectId ? v instanceof ObjectId : typeof v === "string"));
+    const distinctCount = new Set(checkable.map(String)).size;
+    // Ids stored as hex strings still point at ObjectId _ids.
+    const lookup = isObjectId
+      ? checkable
+      : checkable.flatMap((v) => (/^[0-9a-f]{24}$/i.test(v as string) ? [v, new ObjectId(v as string)] : [v]));
+    const namedTarget = targets.filter((c) => c.name === named);
+    const others = isObjectId ? targets.filter((c) => c.name !== named && idTypes(c).includes("objectId")) : [];
+    const candidates = [...namedTarget, ...others];
+    let best: MongoInferredReference | undefined;
+    for (const target of candidates) {
+      if (Date.now() > deadline) {
+        unchecked.push(path);
+        break;
+      }
+      let matched = 0;
       try {
-        indexes = await collection.listIndexes().toArray();
+        matched = await db.collection(target.name).countDocuments({ _id: { $in: lookup } } as Document);
       } catch {
-        // collection might be a view or dropped
+        // views and collections we cannot read
       }
-      if (type === "table") {
-        try {
-          const sample = await collection.find({}).limit(SAMPLE_SIZE).toArray();
-          sampleFields = inferFieldsFromSamples(sample);
-        } catch {
-          // ignore
-        }
+      const nameMatch = target.name === named;
+      // Values that were checked and not found outweigh a matching name.
+      if (matched === 0) continue;
+      const ratio = Math.min(matched / distinctCount, 1);
+      const confidence = Math.round((0.6 * ratio + (nameMatch ? 0.4 : 0)) * 100) / 100;
+      if (confidence < MIN_REFERENCE_CONFIDENCE || (best && best.confidence >= confidence)) continue;
+      best = {
+        path,
+        collection: target.name,
+        confidence,
+        checkedValues: distinctCount,
+        matchedValues: Math.min(matched, distinctCount),
+        nameMatch,
+      };
+      if (nameMatch || matched >= distinctCount) break;
+    }
+    if (best) references.push(best);
+  }
+  return { references, unchecked };
+}
+
+/** Collections, indexes, samples and references for one database. */
+async function fetchDatabaseCollections(db: Db, options: MongoSyncOptions): Promise<MongoCollectionInfo[]> {
+  const collections: MongoCollectionInfo[] = [];
+  const samples = new Map<string, Document[]>();
+
+  const listOptions = { nameOnly: false as const };
+  const collInfos = await db.listCollections({}, listOptions).toArray();
+
+  for (const info of collInfos) {
+    const name = info.name as string;
+    const type = (info.type as string) === "view" ? "view" : "table";
+    const collection = db.collection(name);
+    let indexes: Document[] = [];
+    let sample: Document[] = [];
+    try {
+      indexes = await collection.listIndexes().toArray();
+    } catch {
+      // collection might be a view or dropped
+    }
+    if (type === "table") {
+      try {
+        // promoteValues: false keeps Int32/Double/Long wrappers so numeric types can be told apart.
+        sample = await collection
+          .aggregate([{ $sample: { size: options.sampleSize } }], { promoteValues: false })
+          .toArray();
+      } catch {
+        // ignore
       }
+    }
+    samples.set(name, sample);
+    const { fields, truncated } = inferFieldStats(sample);
+    collections.push({
+      database: db.databaseName,
+      name,
+      type,
+      options: (info.options as Document | undefined) ?? {},
+      indexes,
+      sampledCount: sample.length,
+      fields,
+      fieldsTruncated: truncated,
+      references: [],
+      uncheckedReferencePaths: [],
+    });
+  }
 
-      const ddl = buildCollectionDdl(name, indexes, validator, sampleFields);
-      tableDdls.set(key, ddl);
+  const deadline = Date.now() + REFERENCE_LOOKUP_BUDGET_MS;
+  for (const collection of collections) {
+    const sample = samples.get(collection.name) ?? [];
+    const { references, unchecked } = await inferReferences(db, collection, sample, collections, deadline);
+    collection.references = references;
+    collection.uncheckedReferencePaths = unchecked;
+  }
+  return collections;
+}
+
+/** Database named in the connection string path, e.g. "shop" in mongodb://host/shop?tls=true. */
+export function connectionStringDatabase(connectionString: string): string | undefined {
+  const match = /^mongodb(?:\+srv)?:\/\/[^/]*\/([^?]*)/i.exec(connectionString.trim());
+  return match?.[1] ? decodeURIComponent(match[1]) : undefined;
+}
+
+/** Databases synced when none were chosen: the one in the connection string, otherwise every non-system one. */
+export function defaultMongoDatabases(connectionString: string, available: MongoDatabaseInfo[]): string[] {
+  const named = connectionStringDatabase(connectionString);
+  if (named) return [named];
+  return available.map((d) => d.name).filter((name) => !MONGO_SYSTEM_DATABASES.includes(name));
+}
+
+/**
+ * Databases the user may read. authorizedDatabases lets users without the cluster-wide
+ * listDatabases privilege see the databases they have access to.
+ */
+async function listDatabases(client: MongoClient): Promise<MongoDatabaseInfo[]> {
+  const result = await client.db("admin").admin().listDatabases({ nameOnly: false, authorizedDatabases: true });
+  return result.databases
+    .map((d) => ({ name: d.name, sizeBytes: d.sizeOnDisk != null ? Number(d.sizeOnDisk) : null }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function listMongoDatabases(connectionString: string): Promise<MongoDatabaseInfo[]> {
+  const client = new MongoClient(connectionString, { serverSelectionTimeoutMS: 10000 });
+  try {
+    await client.connect();
+    return await listDatabases(client);
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Shard keys by "database.collection" namespace. Unsharded deployments have no config.collections,
+ * and reading it needs clusterMonitor-like privileges, so failures just mean no shard keys.
+ */
+async function fetchShardKeys(client: MongoClient): Promise<Map<string, MongoShardKey>> {
+  const shardKeys = new Map<string, MongoShardKey>();
+  try {
+    const docs = await client
+      .db("config")
+      .collection("collections")
+      .find({ dropped: { $ne: true } })
+      .toArray();
+    for (const doc of docs) {
+      if (doc.key) shardKeys.set(String(doc._id), { key: doc.key as Document, unique: doc.unique === true });
     }
+  } catch {
+    // not a mongos, or no access to the config database
+  }
+  return shardKeys;
+}
 
-    return { tableDdls, tableTypes };
+/**
+ * Fetch MongoDB schema for the chosen databases (or the defaults): list collections with their options
+ * and indexes, read shard keys, infer fields from a $sample of each collection's documents, then infer references between
+ * collections of the same database from those samples. Collections are keyed database.collection.
+ */
+export async function fetchMongoSchema(connectionString: string, options: MongoSyncOptions): Promise<MongoSchemaData> {
+  const client = new MongoClient(connectionString, { serverSelectionTimeoutMS: 10000 });
+  try {
+    await client.connect();
+    let databaseNames = options.databases;
+    if (!databaseNames) {
+      try {
+        databaseNames = defaultMongoDatabases(connectionString, await listDatabases(client));
+      } catch {
+        // No permission to list databases: fall back to the driver's default database.
+        databaseNames = [client.db().databaseName];
+      }
+    }
+    const collections: MongoCollectionInfo[] = [];
+    for (const name of databaseNames) {
+      collections.push(...(await fetchDatabaseCollections(client.db(name), options)));
+    }
+    const shardKeys = await fetchShardKeys(client);
+    for (const collection of collections) {
+      collection.shardKey = shardKeys.get(`${collection.database}.${collection.name}`);
+    }
+    return { collections };
   } finally {
     await client.close();
   }
@@ -0,0 +1,35 @@
+import type { config as MssqlConfig } from "mssql";
+
+/**
+ * Parse a SQL Server connection URL into config for mssql.
+ * Supports mssql:// and sqlserver:// schemes. Query parameters:
+ * - encrypt: "true" / "false" (default true, as required by Azure SQL)
+ * - trustServerCertificate: "true" to accept self-signed certificates (common for local servers)
+ * - instanceName: named instance (used instead of the port)
+ */
+export function parseMssqlConnectionConfig(connectionString: string): MssqlConfig {
+  let urlString = connectionString.trim();
+  if (!urlString.includes("://")) {
+    urlString = `mssql://${urlString}`;
+  }
+  const url = new URL(urlString);
+  const port = url.port ? parseInt(url.port, 10) : 1433;
+  const database = url.pathname ? url.pathname.slice(1).replace(/\/$/, "") : "";
+  const encrypt = url.searchParams.get("encrypt")?.toLowerCase() !== "false";
+  const trustServerCertificate = url.searchParams.get("trustServerCertificate")?.toLowerCase() === "true";
+  const instanceName = url.searchParams.get("instanceName") || undefined;
+
+  return {
+    server: url.hostname || "localhost",
+    port: instanceName ? undefined : Number.isFinite(port) ? port : 1433,
+    user: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    database: database ? decodeURIComponent(database) : undefined,
+    connectionTimeout: 10000,
+    options: {
+      encrypt,
+      trustServerCertificate,
+      instanceName,
+    },
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Minimal connection surface used for catalog queries. Matches `ConnectionPool.query`
+ * from mssql (`{ recordset }`) without tying the schema reader to the driver.
+ */
+export interface MssqlConnection {
+  query(sql: string): Promise<{ recordset: unknown[] }>;
+}
+
+export type MssqlTableRow = {
+  schema_name: string;
+  table_name: string;
+  object_type: "table" | "view";
+  /** Full CREATE VIEW text for views; null for tables or encrypted views. */
+  definition: string | null;
+};
+
+export type MssqlColumnRow = {
+  schema_name: string;
+  table_name: string;
+  column_name: string;
+  column_id: number;
+  type_name: string;
+  /** Storage size in bytes; -1 for MAX types. */
+  max_length: number;
+  precision: number;
+  scale: number;
+  is_nullable: boolean;
+  is_identity: boolean;
+  identity_seed: string | null;
+  identity_increment: string | null;
+  default_definition: string | null;
+  computed_definition: string | null;
+  is_persisted: boolean | null;
+};
+
+export type MssqlForeignKeyRow = {
+  schema_name: string;
+  table_name: string;
+  constraint_name: string;
+  ordinal_position: number;
+  column_name: string;
+  ref_schema_name: string;
+  ref_table_name: string;
+  ref_column_name: string;
+  delete_action: string;
+  update_action: string;
+};
+
+export type MssqlIndexRow = {
+  schema_name: string;
+  table_name: string;
+  index_name: string;
+  type_desc: string;
+  is_primary_key: boolean;
+  is_unique: boolean;
+  is_unique_constraint: boolean;
+  filter_definition: string | null;
+  key_ordinal: number;
+  is_descending_key: boolean;
+  is_included_column: boolean;
+  column_name: string;
+  /** PRIMARY_XML, SECONDARY_XML, SELECTIVE_XML or SECONDARY_SELECTIVE_XML; null for other indexes. */
+  xml_index_type: string | null;
+  /** PATH, VALUE or PROPERTY for secondary XML indexes. */
+  xml_secondary_type: string | null;
+  /** Primary XML index a secondary XML index is built on. */
+  xml_using_index: string | null;
+  /** GEOMETRY_GRID, GEOMETRY_AUTO_GRID, GEOGRAPHY_GRID or GEOGRAPHY_AUTO_GRID for spatial indexes. */
+  tessellation_scheme: string | null;
+  bounding_box_xmin: number | null;
+  bounding_box_ymin: number | null;
+  bounding_box_xmax: number | null;
+  bounding_box_ymax: number | null;
+};
+
+export type MssqlCheckRow = {
+  schema_name: string;
+  table_name: string;
+  constraint_name: string;
+  definition: string;
+};
+
+export type MssqlSchemaData = {
+  tables: MssqlTableRow[];
+  columns: MssqlColumnRow[];
+  foreignKeys: MssqlForeignKeyRow[];
+  indexes: MssqlIndexRow[];
+  checks: MssqlCheckRow[];
+};
+
+const TABLES_QUERY = `
+  SELECT s.name AS schema_name, t.name AS table_name, 'table' AS object_type, CAST(NULL AS nvarchar(max)) AS definition
+  FROM sys.tables t
+  JOIN sys.schemas s ON s.schema_id = t.schema_id
+  WHERE t.is_ms_shipped = 0
+  UNION ALL
+  SELECT s.name AS schema_name, v.name AS table_name, 'view' AS object_type, OBJECT_DEFINITION(v.object_id) AS definition
+  FROM sys.views v
+  JOIN sys.schemas s ON s.schema_id = v.schema_id
+  WHERE v.is_ms_shipped = 0
+  ORDER BY schema_name, table_name
+`;
+
+const COLUMNS_QUERY = `
+  SELECT s.name AS schema_name, o.name AS table_name, c.name AS column_name, c.column_id,
+         ty.name AS type_name, c.max_length, c.precision, c.scale, c.is_nullable, c.is_identity,
+         CAST(idc.seed_value AS nvarchar(50)) AS identity_seed,
+         CAST(idc.increment_value AS nvarchar(50)) AS identity_increment,
+         dc.definition AS default_definition,
+         cc.definition AS computed_definition, cc.is_persisted
+  FROM sys.columns c
+  JOIN sys.objects o ON o.object_id = c.object_id
+  JOIN sys.schemas s ON s.schema_id = o.schema_id
+  JOIN sys.types ty ON ty.user_type_id = c.user_type_id
+  LEFT JOIN sys.identity_columns idc ON idc.object_id = c.object_id AND idc.column_id = c.column_id
+  LEFT JOIN sys.default_constraints dc ON dc.object_id = c.default_object_id
+  LEFT JOIN sys.computed_columns cc ON cc.object_id = c.object_id AND cc.column_id = c.column_id
+  WHERE o.type IN ('U', 'V')
+    AND o.is_ms_shipped = 0
+  ORDER BY s.name, o.name, c.column_id
+`;
+
+const FOREIGN_KEYS_QUERY = `
+  SELECT s.name AS schema_name, t.name AS table_name, fk.name AS constraint_name,
+         fkc.constraint_column_id AS ordinal_position, pc.name AS column_name,
+         rs.name AS ref_schema_name, rt.name AS ref_table_name, rc.name AS ref_column_name,
+         fk.delete_referential_action_desc AS delete_action,
+         fk.update_referential_action_desc AS update_action
+  FROM sys.foreign_keys fk
+  JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+  JOIN sys.tables t ON t.object_id = fk.parent_object_id
+  JOIN sys.schemas s ON s.schema_id = t.schema_id
+  JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+  JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+  JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+  JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+  WHERE t.is_ms_shipped = 0
+  ORDER BY s.name, t.name, fk.name, fkc.constraint_column_id
+`;
+
+const INDEXES_QUERY = `
+  SELECT s.name AS schema_name, t.name AS table_name, i.name AS index_name, i.type_desc,
+         i.is_primary_key, i.is_unique, i.is_unique_constraint, i.filter_definition,
+         ic.key_ordinal, ic.is_descending_key, ic.is_included_column, c.name AS column_name,
+         xi.xml_index_type_description AS xml_index_type, xi.secondary_type_desc AS xml_secondary_type,
+         pxi.name AS xml_using_index, sit.tessellation_scheme,
+         sit.bounding_box_xmin, sit.bounding_box_ymin, sit.bounding_box_xmax, sit.bounding_box_ymax
+  FROM sys.indexes i
+  JOIN sys.tables t ON t.object_id = i.object_id
+  JOIN sys.schemas s ON s.schema_id = t.schema_id
+  JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+  JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+  LEFT JOIN sys.xml_indexes xi ON xi.object_id = i.object_id AND xi.index_id = i.index_id
+  LEFT JOIN sys.indexes pxi ON pxi.object_id = i.object_id AND pxi.index_id = xi.using_xml_index_id
+  LEFT JOIN sys.spatial_index_tessellations sit ON sit.object_id = i.object_id AND sit.index_id = i.index_id
+  WHERE i.type > 0
+    AND i.is_hypothetical = 0
+    AND t.is_ms_shipped = 0
+  ORDER BY s.name, t.name, i.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id
+`;
+
+const CHECKS_QUERY = `
+  SELECT s.name AS schema_name, t.name AS table_name, cc.name AS constraint_name, cc.definition
+  FROM sys.check_constraints cc
+  JOIN sys.tables t ON t.object_id = cc.parent_object_id
+  JOIN sys.schemas s ON s.schema_id = t.schema_id
+  WHERE t.is_ms_shipped = 0
+  ORDER BY s.name, t.name, cc.name
+`;
+
+export async function fetchMssqlSchemaData(conn: MssqlConnection): Promise<MssqlSchemaData> {
+  const [tablesRes, columnsRes, fkRes, indexesRes, checksRes] = await Promise.all([
+    conn.query(TABLES_QUERY),
+    conn.query(COLUMNS_QUERY),
+    conn.query(FOREIGN_KEYS_QUERY),
+    conn.query(INDEXES_QUERY),
+    conn.query(CHECKS_QUERY),
+  ]);
+
+  return {
+    tables: tablesRes.recordset as MssqlTableRow[],
+    columns: columnsRes.recordset as MssqlColumnRow[],
+    foreignKeys: fkRes.recordset as MssqlForeignKeyRow[],
+    indexes: indexesRes.recordset as MssqlIndexRow[],
+    checks: checksRes.recordset as MssqlCheckRow[],
+  };
+}
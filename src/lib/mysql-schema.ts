@@ -1,15 +1,23 @@
-// MySQL support is not currently integrated into the extension.
-// This file exists for future MySQL support but is not actively used.
-// The Connection type is defined locally to avoid requiring mysql2 dependency.
-
-interface MysqlConnection {
-  query(sql: string): Promise<[unknown, unknown[]]>;
+/**
+ * Minimal connection surface used for catalog queries. Matches the promise API of
+ * mysql2 (`[rows, fields]`) without tying the schema reader to the driver.
+ */
+export interface MysqlConnection {
+  query(sql: string): Promise<[unknown, unknown]>;
 }
 
 export type MysqlTableRow = {
   TABLE_SCHEMA: string;
   TABLE_NAME: string;
   TABLE_TYPE: string;
+  /** Empty when unset; views report "VIEW" here. */
+  TABLE_COMMENT: string | null;
+};
+
+export type MysqlViewRow = {
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  VIEW_DEFINITION: string | null;
 };
 
 export type MysqlColumnRow = {
@@ -24,6 +32,7 @@ export type MysqlColumnRow = {
   CHARACTER_MAXIMUM_LENGTH: number | null;
   NUMERIC_PRECISION: number | null;
   NUMERIC_SCALE: number | null;
+  COLUMN_COMMENT: string | null;
 };
 
 export type MysqlPrimaryKeyRow = {
@@ -51,6 +60,8 @@ export type MysqlForeignKeyRow = {
   REFERENCED_TABLE_SCHEMA: string;
   REFERENCED_TABLE_NAME: string;
   REFERENCED_COLUMN_NAME: string;
+  UPDATE_RULE: string;
+  DELETE_RULE: string;
 };
 
 export type MysqlIndexRow = {
@@ -64,6 +75,7 @@ export type MysqlIndexRow = {
 
 export type MysqlSchemaData = {
   tables: MysqlTableRow[];
+  views: MysqlViewRow[];
   columns: MysqlColumnRow[];
   primaryKeys: MysqlPrimaryKeyRow[];
   uniques: MysqlUniqueRow[];
@@ -72,17 +84,24 @@ export type MysqlSchemaData = {
 };
 
 const TABLES_QUERY = `
-  SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE
+  SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE, TABLE_COMMENT
   FROM information_schema.TABLES
   WHERE TABLE_SCHEMA NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
     AND TABLE_TYPE IN ('BASE TABLE', 'VIEW')
   ORDER BY TABLE_SCHEMA, TABLE_NAME
 `;
 
+const VIEWS_QUERY = `
+  SELECT TABLE_SCHEMA, TABLE_NAME, VIEW_DEFINITION
+  FROM information_schema.VIEWS
+  WHERE TABLE_SCHEMA NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
+  ORDER BY TABLE_SCHEMA, TABLE_NAME
+`;
+
 const COLUMNS_QUERY = `
   SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, ORDINAL_POSITION,
          DATA_TYPE, COLUMN_TYPE, IS_NULLABLE, COLUMN_DEFAULT,
-         CHARACTER_MAXIMUM_LENGTH, NUMERIC_PRECISION, NUMERIC_SCALE
+         CHARACTER_MAXIMUM_LENGTH, NUMERIC_PRECISION, NUMERIC_SCALE, COLUMN_COMMENT
   FROM information_schema.COLUMNS
   WHERE TABLE_SCHEMA NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
   ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
@@ -115,12 +134,16 @@ const UNIQUES_QUERY = `
 const FOREIGN_KEYS_QUERY = `
   SELECT kcu.TABLE_SCHEMA, kcu.TABLE_NAME, kcu.COLUMN_NAME, kcu.ORDINAL_POSITION,
          kcu.CONSTRAINT_NAME,
-         kcu.REFERENCED_TABLE_SCHEMA, kcu.REFERENCED_TABLE_NAME, kcu.REFERENCED_COLUMN_NAME
+         kcu.REFERENCED_TABLE_SCHEMA, kcu.REFERENCED_TABLE_NAME, kcu.REFERENCED_COLUMN_NAME,
+         rc.UPDATE_RULE, rc.DELETE_RULE
   FROM information_schema.KEY_COLUMN_USAGE kcu
   JOIN information_schema.TABLE_CONSTRAINTS tc
     ON tc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
    AND tc.TABLE_SCHEMA = kcu.TABLE_SCHEMA
    AND tc.TABLE_NAME = kcu.TABLE_NAME
+  JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+    ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+   AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
   WHERE tc.CONSTRAINT_TYPE = 'FOREIGN KEY'
     AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
     AND kcu.TABLE_SCHEMA NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
@@ -135,8 +158,9 @@ const INDEXES_QUERY = `
 `;
 
 export async function fetchMysqlSchemaData(conn: MysqlConnection): Promise<MysqlSchemaData> {
-  const [tablesRes, columnsRes, pkRes, uniquesRes, fkRes, indexesRes] = await Promise.all([
+  const [tablesRes, viewsRes, columnsRes, pkRes, uniquesRes, fkRes, indexesRes] = await Promise.all([
     conn.query(TABLES_QUERY),
+    conn.query(VIEWS_QUERY),
     conn.query(COLUMNS_QUERY),
     conn.query(PRIMARY_KEYS_QUERY),
     conn.query(UNIQUES_QUERY),
@@ -145,12 +169,13 @@ export async function fetchMysqlSchemaData(conn: MysqlConnection): Promise<Mysql
   ]);
 
   const rows = (result: unknown): unknown[] =>
-    Array.isArray(result) && result.length === 2 && Array.isArray((result as [unknown, unknown])[1])
-      ? ((result as [unknown, unknown[]])[1] as unknown[])
+    Array.isArray(result) && Array.isArray((result as [unknown, unknown])[0])
+      ? ((result as [unknown[], unknown])[0] as unknown[])
       : [];
 
   return {
     tables: rows(tablesRes) as MysqlTableRow[],
+    views: rows(viewsRes) as MysqlViewRow[],
     columns: rows(columnsRes) as MysqlColumnRow[],
     primaryKeys: rows(pkRes) as MysqlPrimaryKeyRow[],
     uniques: rows(uniquesRes) as MysqlUniqueRow[],
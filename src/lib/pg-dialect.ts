@@ -0,0 +1,96 @@
+import type { Client } from "pg";
+
+/** Postgres-compatible engines whose catalogs differ enough to need their own queries or extras. */
+export type PgDialect = "postgres" | "cockroachdb" | "redshift" | "timescaledb" | "supabase";
+
+export const PG_DIALECT_LABELS: Record<PgDialect, string> = {
+  postgres: "PostgreSQL",
+  cockroachdb: "CockroachDB",
+  redshift: "Amazon Redshift",
+  timescaledb: "TimescaleDB",
+  supabase: "Supabase",
+};
+
+export type PgServerInfo = {
+  dialect: PgDialect;
+  /** Full version() string, e.g. "CockroachDB CCL v23.2.1 (...)". */
+  version: string;
+  serverVersion: string;
+  /** The timescaledb extension is installed. Checked apart from the dialect, since Supabase projects can enable it too. */
+  timescale: boolean;
+};
+
+/** Timescale bookkeeping schemas; chunks live in _timescaledb_internal and would flood the table list. */
+export const TIMESCALE_INTERNAL_SCHEMAS = [
+  "_timescaledb_cache",
+  "_timescaledb_catalog",
+  "_timescaledb_config",
+  "_timescaledb_functions",
+  "_timescaledb_internal",
+  "timescaledb_experimental",
+  "timescaledb_information",
+];
+
+/** Supabase platform schemas. auth and storage are kept because app tables reference them. */
+export const SUPABASE_INTERNAL_SCHEMAS = [
+  "_analytics",
+  "_realtime",
+  "extensions",
+  "graphql",
+  "graphql_public",
+  "net",
+  "pgbouncer",
+  "pgsodium",
+  "pgsodium_masks",
+  "realtime",
+  "supabase_functions",
+  "supabase_migrations",
+  "vault",
+];
+
+async function queryExists(client: Client, sql: string): Promise<boolean> {
+  try {
+    const res = await client.query(sql);
+    return res.rows.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Identify the engine behind a Postgres wire connection from version() and server_version,
+ * falling back to extension/role probes for Timescale and Supabase (which report vanilla Postgres versions).
+ */
+export async function detectPgDialect(client: Client): Promise<PgServerInfo> {
+  let version = "";
+  let serverVersion = "";
+  try {
+    const res = await client.query("SELECT version() AS version, current_setting('server_version') AS server_version");
+    const row = res.rows[0] as { version?: string; server_version?: string } | undefined;
+    version = row?.version ?? "";
+    serverVersion = row?.server_version ?? "";
+  } catch {
+    // Redshift rejects current_setting('server_version') on some clusters; version() alone is enough.
+    try {
+      const res = await client.query("SELECT version() AS version");
+      version = (res.rows[0] as { version?: string } | undefined)?.version ?? "";
+    } catch {
+      // leave empty and treat as vanilla Postgres
+    }
+  }
+
+  let dialect: PgDialect = "postgres";
+  let timescale = false;
+  if (/cockroachdb/i.test(version)) {
+    dialect = "cockroachdb";
+  } else if (/redshift/i.test(version)) {
+    dialect = "redshift";
+  } else {
+    timescale = await queryExists(client, "SELECT 1 FROM pg_extension WHERE extname = 'timescaledb'");
+    // A Supabase project with timescaledb enabled is still Supabase, and keeps its platform schemas excluded.
+    if (await queryExists(client, "SELECT 1 FROM pg_roles WHERE rolname = 'supabase_admin'")) dialect = "supabase";
+    else if (timescale) dialect = "timescaledb";
+  }
+
+  return { dialect, version, serverVersion, timescale };
+}
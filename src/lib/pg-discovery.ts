@@ -0,0 +1,92 @@
+import { Client } from "pg";
+import { parseConnectionConfig } from "./pg-config";
+import type { DiscoveredDatabase } from "./schema-adapter";
+
+type PgDatabaseRow = {
+  datname: string;
+  can_connect: boolean;
+  size_bytes: string | null;
+};
+
+/** Templates and databases that refuse connections (e.g. rdsadmin, cloudsqladmin) are never worth registering. */
+const DATABASES_SQL = `
+SELECT
+  datname,
+  has_database_privilege(datname, 'CONNECT') AS can_connect,
+  CASE WHEN has_database_privilege(datname, 'CONNECT') THEN pg_database_size(datname) END AS size_bytes
+FROM pg_database
+WHERE NOT datistemplate AND datallowconn
+ORDER BY datname
+`;
+
+const DATABASES_WITHOUT_SIZE_SQL = `
+SELECT datname, has_database_privilege(datname, 'CONNECT') AS can_connect, NULL AS size_bytes
+FROM pg_database
+WHERE NOT datistemplate AND datallowconn
+ORDER BY datname
+`;
+
+/** Replace the database in a Postgres connection URL, keeping credentials and query parameters. */
+export function deriveDatabaseConnectionString(connectionString: string, database: string): string {
+  const url = new URL(connectionString);
+  url.pathname = `/${encodeURIComponent(database)}`;
+  return url.toString();
+}
+
+/** Host (and non-default port) of a connection URL, used as the default name prefix for discovered databases. */
+export function serverLabel(connectionString: string): string {
+  const url = new URL(connectionString);
+  return url.port && url.port !== "5432" ? `${url.hostname}:${url.port}` : url.hostname;
+}
+
+/** Same host, port and database, regardless of credentials or parameter order. */
+export function isSamePgDatabase(a: string, b: string): boolean {
+  try {
+    const left = parseConnectionConfig(a);
+    const right = parseConnectionConfig(b);
+    return left.host === right.host && left.port === right.port && left.database === right.database;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Connect once and list the databases on the server. Sizes are best-effort: some managed
+ * services reject pg_database_size, in which case the list is returned without them.
+ */
+export async function discoverPgDatabases(connectionString: string): Promise<DiscoveredDatabase[]> {
+  const client = new Client(parseConnectionConfig(connectionString));
+  try {
+    await client.connect();
+    let rows: PgDatabaseRow[];
+    try {
+      rows = (await client.query<PgDatabaseRow>(DATABASES_SQL)).rows;
+    } catch {
+      rows = (await client.query<PgDatabaseRow>(DATABASES_WITHOUT_SIZE_SQL)).rows;
+    }
+    return rows.map((row) => ({
+      name: row.datname,
+      canConnect: row.can_connect,
+      sizeBytes: row.size_bytes != null ? Number(row.size_bytes) : null,
+      connectionString: deriveDatabaseConnectionString(connectionString, row.datname),
+    }));
+  } finally {
+    try {
+      await client.end();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+export function formatDatabaseSize(bytes: number | null): string {
+  if (bytes == null) return "size unknown";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 && unit > 0 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
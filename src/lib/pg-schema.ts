@@ -1,4 +1,5 @@
 import type { Client } from "pg";
+import { SUPABASE_INTERNAL_SCHEMAS, TIMESCALE_INTERNAL_SCHEMAS, type PgDialect } from "./pg-dialect";
 
 export type ColumnRow = {
   table_schema: string;
@@ -8,6 +9,11 @@ export type ColumnRow = {
   data_type: string;
   udt_schema: string;
   udt_name: string;
+  /** Set when the column is typed with a domain; data_type/udt_* then describe the domain's base type. */
+  domain_schema: string | null;
+  domain_name: string | null;
+  /** format_type(atttypid, atttypmod) from pg_attribute, e.g. "text[]" or "vector(1536)"; null if unavailable. */
+  formatted_type: string | null;
   is_nullable: string;
   column_default: string | null;
   character_maximum_length: number | null;
@@ -15,12 +21,175 @@ export type ColumnRow = {
   numeric_scale: number | null;
 };
 
+type ColumnTypeRow = {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  formatted_type: string;
+};
+
 export type TableRow = {
   table_schema: string;
   table_name: string;
+  /** information_schema table_type ("BASE TABLE", "VIEW", "FOREIGN"), or "MATERIALIZED VIEW" from pg_class. */
   table_type: string;
 };
 
+export type ViewDefinitionRow = {
+  table_schema: string;
+  table_name: string;
+  definition: string;
+};
+
+export type CheckConstraintRow = {
+  table_schema: string;
+  table_name: string;
+  constraint_name: string;
+  /** pg_get_constraintdef output, e.g. "CHECK (amount > 0)" or "CHECK (...) NOT VALID". */
+  definition: string;
+};
+
+export type GeneratedColumnRow = {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  /** pg_attribute.attidentity: "a" (ALWAYS), "d" (BY DEFAULT) or "". */
+  identity: string;
+  /** pg_attribute.attgenerated: "s" (STORED), "v" (VIRTUAL) or "". */
+  generated: string;
+  /** Generation expression for generated columns. */
+  expression: string | null;
+};
+
+export type PartitionedTableRow = {
+  table_schema: string;
+  table_name: string;
+  /** pg_get_partkeydef output, e.g. "RANGE (created_at)". */
+  partition_key: string;
+};
+
+export type InheritanceRow = {
+  table_schema: string;
+  table_name: string;
+  parent_schema: string;
+  parent_name: string;
+  /** Partition bound, e.g. "FOR VALUES FROM ('2024-01-01') TO ('2024-02-01')"; null for plain inheritance. */
+  partition_bound: string | null;
+};
+
+export type RoutineRow = {
+  routine_schema: string;
+  routine_name: string;
+  /** Argument types only, e.g. "bigint, text"; distinguishes overloads. */
+  identity_arguments: string;
+  /** Full argument list with names, modes and defaults. */
+  arguments: string;
+  /** Null for procedures. */
+  result_type: string | null;
+  /** pg_proc.prokind: "f" (function) or "p" (procedure). */
+  kind: string;
+  language: string;
+  /** pg_get_functiondef output (CREATE OR REPLACE ... without a trailing semicolon). */
+  definition: string;
+};
+
+export type TriggerRow = {
+  table_schema: string;
+  table_name: string;
+  trigger_name: string;
+  /** pg_get_triggerdef output (CREATE TRIGGER ... without a trailing semicolon). */
+  definition: string;
+  /** pg_trigger.tgenabled: "O" (enabled), "D" (disabled), "R" (replica), "A" (always). */
+  enabled: string;
+};
+
+export type RowSecurityRow = {
+  table_schema: string;
+  table_name: string;
+  row_security: boolean;
+  force_row_security: boolean;
+};
+
+export type PolicyRow = {
+  table_schema: string;
+  table_name: string;
+  policy_name: string;
+  /** "PERMISSIVE" or "RESTRICTIVE". */
+  permissive: string;
+  roles: string[];
+  /** "ALL", "SELECT", "INSERT", "UPDATE" or "DELETE". */
+  command: string;
+  using_expression: string | null;
+  check_expression: string | null;
+};
+
+export type TableGrantRow = {
+  table_schema: string;
+  table_name: string;
+  grantee: string;
+  privilege_type: string;
+  is_grantable: boolean;
+};
+
+export type CommentRow = {
+  table_schema: string;
+  table_name: string;
+  /** Null for the comment on the table itself. */
+  column_name: string | null;
+  description: string;
+};
+
+export type ForeignTableRow = {
+  table_schema: string;
+  table_name: string;
+  server_name: string;
+  fdw_name: string;
+  /** ftoptions entries as "key=value". */
+  options: string[] | null;
+};
+
+export type DomainRow = {
+  domain_schema: string;
+  domain_name: string;
+  /** format_type of the base type, e.g. "character varying(255)". */
+  base_type: string;
+  not_null: boolean;
+  default_value: string | null;
+  /** pg_get_constraintdef output for each CHECK on the domain ("CHECK (...)"). */
+  checks: string[];
+};
+
+export type CompositeTypeRow = {
+  type_schema: string;
+  type_name: string;
+  attributes: { name: string; type: string }[];
+};
+
+/** Sequences from pg_sequences; identity sequences are left out because GENERATED AS IDENTITY creates them. */
+export type SequenceRow = {
+  sequence_schema: string;
+  sequence_name: string;
+  data_type: string;
+  start_value: string;
+  min_value: string;
+  max_value: string;
+  increment_by: string;
+  cycle: boolean;
+  cache_size: string;
+};
+
+/** A type or function that belongs to an installed extension. */
+export type ExtensionObjectRow = {
+  extension_name: string;
+  extension_schema: string;
+  extension_version: string;
+  object_kind: "type" | "function";
+  object_schema: string;
+  object_name: string;
+  /** Found by an unqualified name on the sync's search_path, so catalog output prints it without its schema. */
+  is_visible: boolean;
+};
+
 export type EnumTypeRow = {
   nspname: string;
   typname: string;
@@ -53,83 +222,463 @@ export type ForeignKeyRow = {
   ref_table_schema: string;
   ref_table_name: string;
   ref_column_name: string;
+  /** Referential actions: "NO ACTION", "RESTRICT", "CASCADE", "SET NULL" or "SET DEFAULT". */
+  update_rule: string;
+  delete_rule: string;
+  /** "NONE" (MATCH SIMPLE), "FULL" or "PARTIAL". */
+  match_option: string;
+  is_deferrable: string;
+  initially_deferred: string;
 };
 
-const TABLES_QUERY = `
-  SELECT table_schema, table_name, table_type
-  FROM information_schema.tables
-  WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-    AND table_type IN ('BASE TABLE', 'VIEW')
-  ORDER BY table_schema, table_name
-`;
+const BASE_EXCLUDED_SCHEMAS = ["pg_catalog", "information_schema"];
 
-const COLUMNS_QUERY = `
-  SELECT table_schema, table_name, column_name, ordinal_position,
-         data_type, udt_schema, udt_name, is_nullable, column_default,
-         character_maximum_length, numeric_precision, numeric_scale
-  FROM information_schema.columns
-  WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY table_schema, table_name, ordinal_position
-`;
+/** Catalog schemas to skip per dialect and for Timescale, as a quoted SQL list for NOT IN (...). */
+function excludedSchemas(dialect: PgDialect, timescale: boolean): string {
+  const schemas = [...BASE_EXCLUDED_SCHEMAS];
+  if (dialect === "cockroachdb") schemas.push("crdb_internal", "pg_extension");
+  if (dialect === "redshift") schemas.push("pg_internal", "pg_automv");
+  if (timescale) schemas.push(...TIMESCALE_INTERNAL_SCHEMAS);
+  if (dialect === "supabase") schemas.push(...SUPABASE_INTERNAL_SCHEMAS);
+  return schemas.map((name) => `'${name}'`).join(", ");
+}
 
-const ENUMS_QUERY = `
-  SELECT n.nspname AS nspname, t.typname AS typname, e.enumlabel AS enumlabel, e.enumsortorder AS enumsortorder
-  FROM pg_type t
-  JOIN pg_enum e ON e.enumtypid = t.oid
-  JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
-  WHERE t.typtype = 'e'
-    AND n.nspname NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY n.nspname, t.typname, e.enumsortorder
-`;
+function tablesQuery(excluded: string): string {
+  return `
+    SELECT table_schema, table_name, table_type
+    FROM information_schema.tables
+    WHERE table_schema NOT IN (${excluded})
+      AND table_type IN ('BASE TABLE', 'VIEW', 'FOREIGN')
+    ORDER BY table_schema, table_name
+  `;
+}
+
+// information_schema leaves materialized views out of both tables and columns, so they come from pg_class.
+function materializedViewsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, 'MATERIALIZED VIEW' AS table_type
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind = 'm'
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, c.relname
+  `;
+}
+
+function materializedViewColumnsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+           a.attnum AS ordinal_position, format_type(a.atttypid, a.atttypmod) AS data_type,
+           tn.nspname AS udt_schema, t.typname AS udt_name, NULL AS domain_schema, NULL AS domain_name,
+           format_type(a.atttypid, a.atttypmod) AS formatted_type,
+           CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable, NULL AS column_default,
+           NULL AS character_maximum_length, NULL AS numeric_precision, NULL AS numeric_scale
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    JOIN pg_type t ON t.oid = a.atttypid
+    JOIN pg_namespace tn ON tn.oid = t.typnamespace
+    WHERE c.relkind = 'm'
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, c.relname, a.attnum
+  `;
+}
 
-const PRIMARY_KEYS_QUERY = `
-  SELECT tc.table_schema, tc.table_name, tc.constraint_name, kcu.column_name, kcu.ordinal_position
-  FROM information_schema.table_constraints tc
-  JOIN information_schema.key_column_usage kcu
-    ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
-  WHERE tc.constraint_type = 'PRIMARY KEY'
-    AND tc.table_schema NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY tc.table_schema, tc.table_name, kcu.ordinal_position
+function viewDefinitionsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, pg_get_viewdef(c.oid, true) AS definition
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('v', 'm')
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+// conrelid = 0 are domain checks, which belong to the type rather than a table.
+function checkConstraintsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, con.conname AS constraint_name,
+           pg_get_constraintdef(con.oid, true) AS definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE con.contype = 'c'
+      AND con.conrelid <> 0
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, c.relname, con.conname
+  `;
+}
+
+// attidentity needs Postgres 10+ and attgenerated 12+; older servers reject the query and it is skipped.
+function generatedColumnsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+           a.attidentity AS identity, a.attgenerated AS generated,
+           pg_get_expr(ad.adbin, ad.adrelid) AS expression
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+    WHERE a.attnum > 0
+      AND NOT a.attisdropped
+      AND (a.attidentity <> '' OR a.attgenerated <> '')
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+function partitionedTablesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, pg_get_partkeydef(c.oid) AS partition_key
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind = 'p'
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+// Covers both declarative partitions (relispartition) and legacy INHERITS children.
+function inheritanceQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name,
+           pn.nspname AS parent_schema, p.relname AS parent_name,
+           CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END AS partition_bound
+    FROM pg_inherits i
+    JOIN pg_class c ON c.oid = i.inhrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_class p ON p.oid = i.inhparent
+    JOIN pg_namespace pn ON pn.oid = p.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'f')
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY pn.nspname, p.relname, n.nspname, c.relname
+  `;
+}
+
+// Aggregates and window functions are left out (pg_get_functiondef rejects them), as are functions owned by
+// extensions, which would otherwise bury the app's own routines. prokind needs Postgres 11+.
+function routinesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS routine_schema, p.proname AS routine_name,
+           pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+           pg_get_function_arguments(p.oid) AS arguments,
+           CASE WHEN p.prokind = 'f' THEN pg_get_function_result(p.oid) END AS result_type,
+           p.prokind AS kind, l.lanname AS language, pg_get_functiondef(p.oid) AS definition
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    JOIN pg_language l ON l.oid = p.prolang
+    WHERE p.prokind IN ('f', 'p')
+      AND n.nspname NOT IN (${excluded})
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+      )
+    ORDER BY n.nspname, p.proname, identity_arguments
+  `;
+}
+
+function triggersQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, t.tgname AS trigger_name,
+           pg_get_triggerdef(t.oid, true) AS definition, t.tgenabled AS enabled
+    FROM pg_trigger t
+    JOIN pg_class c ON c.oid = t.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE NOT t.tgisinternal
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, c.relname, t.tgname
+  `;
+}
+
+function rowSecurityQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name,
+           c.relrowsecurity AS row_security, c.relforcerowsecurity AS force_row_security
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE (c.relrowsecurity OR c.relforcerowsecurity)
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+function policiesQuery(excluded: string): string {
+  return `
+    SELECT schemaname AS table_schema, tablename AS table_name, policyname AS policy_name,
+           permissive, array_to_json(roles) AS roles, cmd AS command,
+           qual AS using_expression, with_check AS check_expression
+    FROM pg_policies
+    WHERE schemaname NOT IN (${excluded})
+    ORDER BY schemaname, tablename, policyname
+  `;
+}
+
+// relacl is NULL while a table still has its default privileges; the owner's own grants are implied.
+function tableGrantsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name,
+           COALESCE(r.rolname, 'PUBLIC') AS grantee, a.privilege_type, a.is_grantable
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    CROSS JOIN LATERAL aclexplode(c.relacl) a
+    LEFT JOIN pg_roles r ON r.oid = a.grantee
+    WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND c.relacl IS NOT NULL
+      AND a.grantee <> c.relowner
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, c.relname, grantee, a.privilege_type
+  `;
+}
+
+// objsubid 0 is the relation's own comment; otherwise it is the commented column's attnum.
+function commentsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name, d.description
+    FROM pg_description d
+    JOIN pg_class c ON c.oid = d.objoid AND d.classoid = 'pg_class'::regclass
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = d.objsubid AND d.objsubid > 0
+    WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND n.nspname NOT IN (${excluded})
+      AND (d.objsubid = 0 OR a.attname IS NOT NULL)
+  `;
+}
+
+function foreignTablesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, s.srvname AS server_name,
+           w.fdwname AS fdw_name, ft.ftoptions AS options
+    FROM pg_foreign_table ft
+    JOIN pg_class c ON c.oid = ft.ftrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_foreign_server s ON s.oid = ft.ftserver
+    JOIN pg_foreign_data_wrapper w ON w.oid = s.srvfdw
+    WHERE n.nspname NOT IN (${excluded})
+  `;
+}
+
+// CockroachDB lists its implicit rowid and hash-shard columns with is_hidden = 'YES'.
+function columnsQuery(excluded: string, dialect: PgDialect): string {
+  return `
+    SELECT table_schema, table_name, column_name, ordinal_position,
+           data_type, udt_schema, udt_name, domain_schema, domain_name, is_nullable, column_default,
+           character_maximum_length, numeric_precision, numeric_scale
+    FROM information_schema.columns
+    WHERE table_schema NOT IN (${excluded})${dialect === "cockroachdb" ? "\n      AND is_hidden = 'NO'" : ""}
+    ORDER BY table_schema, table_name, ordinal_position
+  `;
+}
+
+// information_schema only says ARRAY or USER-DEFINED for arrays, extension types and domains; format_type has the
+// full spelling including typmods (vector(1536), geometry(Point,4326)).
+function columnTypesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+           format_type(a.atttypid, a.atttypmod) AS formatted_type
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'f')
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+function enumsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS nspname, t.typname AS typname, e.enumlabel AS enumlabel, e.enumsortorder AS enumsortorder
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+    WHERE t.typtype = 'e'
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, t.typname, e.enumsortorder
+  `;
+}
+
+function domainsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS domain_schema, t.typname AS domain_name,
+           format_type(t.typbasetype, t.typtypmod) AS base_type, t.typnotnull AS not_null,
+           t.typdefault AS default_value,
+           COALESCE(
+             (SELECT json_agg(pg_get_constraintdef(c.oid, true) ORDER BY c.conname)
+              FROM pg_constraint c WHERE c.contypid = t.oid AND c.contype = 'c'),
+             '[]'::json
+           ) AS checks
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE t.typtype = 'd'
+      AND n.nspname NOT IN (${excluded})
+    ORDER BY n.nspname, t.typname
+  `;
+}
+
+// Composite types own a pg_class row of relkind 'c'; table row types (relkind 'r', 'v', ...) are not standalone types.
+function compositeTypesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS type_schema, t.typname AS type_name,
+           json_agg(json_build_object('name', a.attname, 'type', format_type(a.atttypid, a.atttypmod))
+                    ORDER BY a.attnum) AS attributes
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    JOIN pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    WHERE t.typtype = 'c'
+      AND n.nspname NOT IN (${excluded})
+    GROUP BY n.nspname, t.typname
+    ORDER BY n.nspname, t.typname
+  `;
+}
+
+/** Standalone sequences; identity (deptype 'i') and serial/OWNED BY (deptype 'a') sequences belong to a column. */
+function sequencesQuery(excluded: string): string {
+  return `
+    SELECT s.schemaname AS sequence_schema, s.sequencename AS sequence_name, s.data_type::text AS data_type,
+           s.start_value, s.min_value, s.max_value, s.increment_by, s.cycle, s.cache_size
+    FROM pg_sequences s
+    JOIN pg_namespace n ON n.nspname = s.schemaname
+    JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+    WHERE s.schemaname NOT IN (${excluded})
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.objid = c.oid AND d.classid = 'pg_class'::regclass AND d.deptype IN ('i', 'a')
+      )
+    ORDER BY s.schemaname, s.sequencename
+  `;
+}
+
+// Extension objects are not filtered by schema: extensions often live in a schema of their own
+// (e.g. Supabase's "extensions") while the tables using them do not.
+const EXTENSION_OBJECTS_QUERY = `
+  SELECT e.extname AS extension_name, en.nspname AS extension_schema, e.extversion AS extension_version,
+         'type' AS object_kind, tn.nspname AS object_schema, t.typname AS object_name,
+         pg_type_is_visible(t.oid) AS is_visible
+  FROM pg_extension e
+  JOIN pg_namespace en ON en.oid = e.extnamespace
+  JOIN pg_depend d ON d.refclassid = 'pg_extension'::regclass AND d.refobjid = e.oid AND d.deptype = 'e'
+    AND d.classid = 'pg_type'::regclass
+  JOIN pg_type t ON t.oid = d.objid
+  JOIN pg_namespace tn ON tn.oid = t.typnamespace
+  WHERE e.extname <> 'plpgsql'
+  UNION ALL
+  SELECT e.extname, en.nspname, e.extversion, 'function', pn.nspname, p.proname, pg_function_is_visible(p.oid)
+  FROM pg_extension e
+  JOIN pg_namespace en ON en.oid = e.extnamespace
+  JOIN pg_depend d ON d.refclassid = 'pg_extension'::regclass AND d.refobjid = e.oid AND d.deptype = 'e'
+    AND d.classid = 'pg_proc'::regclass
+  JOIN pg_proc p ON p.oid = d.objid
+  JOIN pg_namespace pn ON pn.oid = p.pronamespace
+  WHERE e.extname <> 'plpgsql'
 `;
 
-const UNIQUES_QUERY = `
-  SELECT tc.table_schema, tc.table_name, tc.constraint_name, kcu.column_name, kcu.ordinal_position
-  FROM information_schema.table_constraints tc
-  JOIN information_schema.key_column_usage kcu
-    ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
-  WHERE tc.constraint_type = 'UNIQUE'
-    AND tc.table_schema NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY tc.table_schema, tc.table_name, tc.constraint_name, kcu.ordinal_position
+function primaryKeysQuery(excluded: string): string {
+  return `
+    SELECT tc.table_schema, tc.table_name, tc.constraint_name, kcu.column_name, kcu.ordinal_position
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
+    WHERE tc.constraint_type = 'PRIMARY KEY'
+      AND tc.table_schema NOT IN (${excluded})
+    ORDER BY tc.table_schema, tc.table_name, kcu.ordinal_position
+  `;
+}
+
+function uniquesQuery(excluded: string): string {
+  return `
+    SELECT tc.table_schema, tc.table_name, tc.constraint_name, kcu.column_name, kcu.ordinal_position
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
+    WHERE tc.constraint_type = 'UNIQUE'
+      AND tc.table_schema NOT IN (${excluded})
+    ORDER BY tc.table_schema, tc.table_name, tc.constraint_name, kcu.ordinal_position
+  `;
+}
+
+function foreignKeysQuery(excluded: string): string {
+  return `
+    SELECT
+      fk.table_schema AS table_schema,
+      fk.table_name AS table_name,
+      fk.column_name AS column_name,
+      fk.ordinal_position AS ordinal_position,
+      rc.constraint_name AS constraint_name,
+      pk.table_schema AS ref_table_schema,
+      pk.table_name AS ref_table_name,
+      pk.column_name AS ref_column_name,
+      rc.update_rule AS update_rule,
+      rc.delete_rule AS delete_rule,
+      rc.match_option AS match_option,
+      tc.is_deferrable AS is_deferrable,
+      tc.initially_deferred AS initially_deferred
+    FROM information_schema.referential_constraints rc
+    JOIN information_schema.table_constraints tc
+      ON rc.constraint_catalog = tc.constraint_catalog
+     AND rc.constraint_schema = tc.constraint_schema
+     AND rc.constraint_name = tc.constraint_name
+    JOIN information_schema.key_column_usage fk
+      ON rc.constraint_catalog = fk.constraint_catalog
+     AND rc.constraint_schema = fk.constraint_schema
+     AND rc.constraint_name = fk.constraint_name
+    JOIN information_schema.constraint_column_usage pk
+      ON rc.unique_constraint_catalog = pk.constraint_catalog
+     AND rc.unique_constraint_schema = pk.constraint_schema
+     AND rc.unique_constraint_name = pk.constraint_name
+    WHERE fk.table_schema NOT IN (${excluded})
+    ORDER BY fk.table_schema, fk.table_name, rc.constraint_name, fk.ordinal_position
+  `;
+}
+
+function indexesQuery(excluded: string): string {
+  return `
+    SELECT schemaname, tablename, indexname, indexdef
+    FROM pg_indexes
+    WHERE schemaname NOT IN (${excluded})
+    ORDER BY schemaname, tablename
+  `;
+}
+
+// Redshift-only pg_class/pg_attribute columns: reldiststyle, attisdistkey, attsortkeyord (negative = interleaved).
+function redshiftDistStylesQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, c.reldiststyle AS diststyle
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind = 'r'
+      AND n.nspname NOT IN (${excluded})
+  `;
+}
+
+function redshiftKeyColumnsQuery(excluded: string): string {
+  return `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+           a.attisdistkey AS is_distkey, a.attsortkeyord AS sortkey_ord
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    WHERE c.relkind = 'r'
+      AND n.nspname NOT IN (${excluded})
+      AND (a.attisdistkey OR a.attsortkeyord <> 0)
+  `;
+}
+
+const TIMESCALE_HYPERTABLES_QUERY = `
+  SELECT hypertable_schema, hypertable_name, num_chunks, compression_enabled
+  FROM timescaledb_information.hypertables
 `;
 
-const FOREIGN_KEYS_QUERY = `
-  SELECT
-    fk.table_schema AS table_schema,
-    fk.table_name AS table_name,
-    fk.column_name AS column_name,
-    fk.ordinal_position AS ordinal_position,
-    rc.constraint_name AS constraint_name,
-    pk.table_schema AS ref_table_schema,
-    pk.table_name AS ref_table_name,
-    pk.column_name AS ref_column_name
-  FROM information_schema.referential_constraints rc
-  JOIN information_schema.key_column_usage fk
-    ON rc.constraint_catalog = fk.constraint_catalog
-   AND rc.constraint_schema = fk.constraint_schema
-   AND rc.constraint_name = fk.constraint_name
-  JOIN information_schema.constraint_column_usage pk
-    ON rc.unique_constraint_catalog = pk.constraint_catalog
-   AND rc.unique_constraint_schema = pk.constraint_schema
-   AND rc.unique_constraint_name = pk.constraint_name
-  WHERE fk.table_schema NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY fk.table_schema, fk.table_name, rc.constraint_name, fk.ordinal_position
+const TIMESCALE_DIMENSIONS_QUERY = `
+  SELECT hypertable_schema, hypertable_name, dimension_number, column_name, dimension_type,
+         time_interval::text AS time_interval, integer_interval, num_partitions
+  FROM timescaledb_information.dimensions
+  ORDER BY hypertable_schema, hypertable_name, dimension_number
 `;
 
-const INDEXES_QUERY = `
-  SELECT schemaname, tablename, indexname, indexdef
-  FROM pg_indexes
-  WHERE schemaname NOT IN ('pg_catalog', 'information_schema')
-  ORDER BY schemaname, tablename
+const COCKROACH_SHARDED_INDEXES_QUERY = `
+  SELECT t.schema_name AS table_schema, t.name AS table_name, i.index_name, i.shard_bucket_count
+  FROM crdb_internal.table_indexes i
+  JOIN crdb_internal.tables t ON t.table_id = i.descriptor_id
+  WHERE i.is_sharded
+    AND t.database_name = current_database()
 `;
 
 export type IndexRow = {
@@ -139,7 +688,47 @@ export type IndexRow = {
   indexdef: string;
 };
 
+export type RedshiftDistStyleRow = {
+  table_schema: string;
+  table_name: string;
+  diststyle: number;
+};
+
+export type RedshiftKeyColumnRow = {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  is_distkey: boolean;
+  sortkey_ord: number;
+};
+
+export type HypertableRow = {
+  hypertable_schema: string;
+  hypertable_name: string;
+  num_chunks: number;
+  compression_enabled: boolean;
+};
+
+export type HypertableDimensionRow = {
+  hypertable_schema: string;
+  hypertable_name: string;
+  dimension_number: number;
+  column_name: string;
+  dimension_type: string;
+  time_interval: string | null;
+  integer_interval: number | string | null;
+  num_partitions: number | null;
+};
+
+export type ShardedIndexRow = {
+  table_schema: string;
+  table_name: string;
+  index_name: string;
+  shard_bucket_count: number;
+};
+
 export type SchemaData = {
+  dialect: PgDialect;
   tables: TableRow[];
   columns: ColumnRow[];
   enums: EnumTypeRow[];
@@ -147,26 +736,196 @@ export type SchemaData = {
   uniques: UniqueRow[];
   foreignKeys: ForeignKeyRow[];
   indexes: IndexRow[];
+  redshiftDistStyles: RedshiftDistStyleRow[];
+  redshiftKeyColumns: RedshiftKeyColumnRow[];
+  hypertables: HypertableRow[];
+  hypertableDimensions: HypertableDimensionRow[];
+  shardedIndexes: ShardedIndexRow[];
+  viewDefinitions: ViewDefinitionRow[];
+  foreignTables: ForeignTableRow[];
+  comments: CommentRow[];
+  checkConstraints: CheckConstraintRow[];
+  generatedColumns: GeneratedColumnRow[];
+  partitionedTables: PartitionedTableRow[];
+  inheritance: InheritanceRow[];
+  routines: RoutineRow[];
+  triggers: TriggerRow[];
+  rowSecurity: RowSecurityRow[];
+  policies: PolicyRow[];
+  tableGrants: TableGrantRow[];
+  domains: DomainRow[];
+  compositeTypes: CompositeTypeRow[];
+  sequences: SequenceRow[];
+  extensionObjects: ExtensionObjectRow[];
+  /** Catalog queries the server rejected; their rows are left empty instead of failing the sync. */
+  skipped: string[];
 };
 
-export async function fetchSchemaData(client: Client): Promise<SchemaData> {
-  const [tablesRes, columnsRes, enumsRes, pkRes, uniquesRes, fkRes, indexesRes] = await Promise.all([
-    client.query(TABLES_QUERY),
-    client.query(COLUMNS_QUERY),
-    client.query(ENUMS_QUERY),
-    client.query(PRIMARY_KEYS_QUERY),
-    client.query(UNIQUES_QUERY),
-    client.query(FOREIGN_KEYS_QUERY),
-    client.query(INDEXES_QUERY),
+/**
+ * Run a catalog query whose failure should not abort the sync (unsupported view, missing privilege).
+ * The label is recorded in `skipped` so the caller can report what is missing.
+ */
+async function optionalRows<T>(client: Client, label: string, sql: string, skipped: string[]): Promise<T[]> {
+  try {
+    const res = await client.query(sql);
+    return res.rows as T[];
+  } catch {
+    skipped.push(label);
+    return [];
+  }
+}
+
+/**
+ * Fetch catalog data for the given dialect. `timescale` adds hypertables and hides Timescale's internal schemas
+ * on whichever dialect has the extension. Tables and columns are required; everything else degrades to an empty
+ * list. Redshift lacks most of the newer catalogs (enums, indexes, foreign tables, checks, identity/generated
+ * columns, prokind, triggers, row-level security, domains, pg_sequences, extensions), and neither it nor
+ * CockroachDB has table inheritance, so those queries are not sent.
+ */
+export async function fetchSchemaData(
+  client: Client,
+  dialect: PgDialect = "postgres",
+  timescale = dialect === "timescaledb",
+): Promise<SchemaData> {
+  const excluded = excludedSchemas(dialect, timescale);
+  const skipped: string[] = [];
+  const none = Promise.resolve([]);
+
+  const [
+    tablesRes,
+    columnsRes,
+    columnTypes,
+    enums,
+    primaryKeys,
+    uniques,
+    foreignKeys,
+    indexes,
+    redshiftDistStyles,
+    redshiftKeyColumns,
+    hypertables,
+    hypertableDimensions,
+    shardedIndexes,
+    materializedViews,
+    materializedViewColumns,
+    viewDefinitions,
+    foreignTables,
+    comments,
+    checkConstraints,
+    generatedColumns,
+    partitionedTables,
+    inheritance,
+    routines,
+    triggers,
+    rowSecurity,
+    policies,
+    tableGrants,
+    domains,
+    compositeTypes,
+    sequences,
+    extensionObjects,
+  ] = await Promise.all([
+    client.query(tablesQuery(excluded)),
+    client.query(columnsQuery(excluded, dialect)),
+    optionalRows<ColumnTypeRow>(client, "column types", columnTypesQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<EnumTypeRow>(client, "enums", enumsQuery(excluded), skipped),
+    optionalRows<PrimaryKeyRow>(client, "primary keys", primaryKeysQuery(excluded), skipped),
+    optionalRows<UniqueRow>(client, "unique constraints", uniquesQuery(excluded), skipped),
+    optionalRows<ForeignKeyRow>(client, "foreign keys", foreignKeysQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<IndexRow>(client, "indexes", indexesQuery(excluded), skipped),
+    dialect === "redshift"
+      ? optionalRows<RedshiftDistStyleRow>(client, "distribution styles", redshiftDistStylesQuery(excluded), skipped)
+      : none,
+    dialect === "redshift"
+      ? optionalRows<RedshiftKeyColumnRow>(client, "dist/sort keys", redshiftKeyColumnsQuery(excluded), skipped)
+      : none,
+    timescale ? optionalRows<HypertableRow>(client, "hypertables", TIMESCALE_HYPERTABLES_QUERY, skipped) : none,
+    timescale
+      ? optionalRows<HypertableDimensionRow>(client, "hypertable dimensions", TIMESCALE_DIMENSIONS_QUERY, skipped)
+      : none,
+    dialect === "cockroachdb"
+      ? optionalRows<ShardedIndexRow>(client, "hash-sharded indexes", COCKROACH_SHARDED_INDEXES_QUERY, skipped)
+      : none,
+    optionalRows<TableRow>(client, "materialized views", materializedViewsQuery(excluded), skipped),
+    optionalRows<ColumnRow>(client, "materialized view columns", materializedViewColumnsQuery(excluded), skipped),
+    optionalRows<ViewDefinitionRow>(client, "view definitions", viewDefinitionsQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<ForeignTableRow>(client, "foreign tables", foreignTablesQuery(excluded), skipped),
+    optionalRows<CommentRow>(client, "comments", commentsQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<CheckConstraintRow>(client, "check constraints", checkConstraintsQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<GeneratedColumnRow>(
+          client,
+          "identity/generated columns",
+          generatedColumnsQuery(excluded),
+          skipped,
+        ),
+    dialect === "redshift" || dialect === "cockroachdb"
+      ? none
+      : optionalRows<PartitionedTableRow>(client, "partitioned tables", partitionedTablesQuery(excluded), skipped),
+    dialect === "redshift" || dialect === "cockroachdb"
+      ? none
+      : optionalRows<InheritanceRow>(client, "partitions/inheritance", inheritanceQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<RoutineRow>(client, "functions/procedures", routinesQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<TriggerRow>(client, "triggers", triggersQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<RowSecurityRow>(client, "row-level security", rowSecurityQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<PolicyRow>(client, "policies", policiesQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<TableGrantRow>(client, "grants", tableGrantsQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<DomainRow>(client, "domains", domainsQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<CompositeTypeRow>(client, "composite types", compositeTypesQuery(excluded), skipped),
+    dialect === "redshift" ? none : optionalRows<SequenceRow>(client, "sequences", sequencesQuery(excluded), skipped),
+    dialect === "redshift"
+      ? none
+      : optionalRows<ExtensionObjectRow>(client, "extensions", EXTENSION_OBJECTS_QUERY, skipped),
   ]);
 
+  const formattedTypes = new Map(
+    columnTypes.map((c) => [`${c.table_schema}.${c.table_name}.${c.column_name}`, c.formatted_type]),
+  );
+  const columns = (columnsRes.rows as Omit<ColumnRow, "formatted_type">[]).map((c) => ({
+    ...c,
+    formatted_type: formattedTypes.get(`${c.table_schema}.${c.table_name}.${c.column_name}`) ?? null,
+  }));
+
   return {
-    tables: tablesRes.rows as TableRow[],
-    columns: columnsRes.rows as ColumnRow[],
-    enums: enumsRes.rows as EnumTypeRow[],
-    primaryKeys: pkRes.rows as PrimaryKeyRow[],
-    uniques: uniquesRes.rows as UniqueRow[],
-    foreignKeys: fkRes.rows as ForeignKeyRow[],
-    indexes: indexesRes.rows as IndexRow[],
+    dialect,
+    tables: [...(tablesRes.rows as TableRow[]), ...materializedViews],
+    columns: [...columns, ...materializedViewColumns],
+    enums,
+    primaryKeys,
+    uniques,
+    foreignKeys,
+    indexes,
+    redshiftDistStyles,
+    redshiftKeyColumns,
+    hypertables,
+    hypertableDimensions,
+    shardedIndexes,
+    viewDefinitions,
+    foreignTables,
+    comments,
+    checkConstraints,
+    generatedColumns,
+    partitionedTables,
+    inheritance,
+    routines,
+    triggers,
+    rowSecurity,
+    policies,
+    tableGrants,
+    domains,
+    compositeTypes,
+    sequences,
+    extensionObjects,
+    skipped,
   };
 }
@@ -0,0 +1,344 @@
+/**
+ * Convert a schema.prisma file into SQL DDL (as `prisma migrate` would create it) so it can be
+ * parsed like any other schema file. Covers models, views, enums, @@map/@map, @@schema, ids,
+ * uniques, indexes, defaults, native @db types and @relation foreign keys.
+ */
+
+type PrismaProvider = "postgresql" | "mysql" | "sqlite";
+
+type PrismaField = {
+  name: string;
+  type: string;
+  optional: boolean;
+  list: boolean;
+  attributes: string;
+  doc: string[];
+};
+
+type PrismaBlock = {
+  keyword: "model" | "view" | "enum";
+  name: string;
+  fields: PrismaField[];
+  blockAttributes: string[];
+  enumValues: { name: string; mapped: string }[];
+  doc: string[];
+};
+
+const SCALAR_TYPES: Record<PrismaProvider, Record<string, string>> = {
+  postgresql: {
+    String: "TEXT",
+    Int: "INTEGER",
+    BigInt: "BIGINT",
+    Float: "DOUBLE PRECISION",
+    Decimal: "DECIMAL(65,30)",
+    Boolean: "BOOLEAN",
+    DateTime: "TIMESTAMP(3)",
+    Json: "JSONB",
+    Bytes: "BYTEA",
+  },
+  mysql: {
+    String: "VARCHAR(191)",
+    Int: "INTEGER",
+    BigInt: "BIGINT",
+    Float: "DOUBLE",
+    Decimal: "DECIMAL(65,30)",
+    Boolean: "BOOLEAN",
+    DateTime: "DATETIME(3)",
+    Json: "JSON",
+    Bytes: "LONGBLOB",
+  },
+  sqlite: {
+    String: "TEXT",
+    Int: "INTEGER",
+    BigInt: "BIGINT",
+    Float: "REAL",
+    Decimal: "DECIMAL",
+    Boolean: "BOOLEAN",
+    DateTime: "DATETIME",
+    Json: "JSONB",
+    Bytes: "BLOB",
+  },
+};
+
+function quoteId(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Arguments of the first `@name(...)` attribute, with balanced parentheses. */
+function attributeArgs(attributes: string, name: string): string | null {
+  const re = new RegExp(`${name.replace(/[.@]/g, "\\$&")}(?![\\w.])`);
+  const match = re.exec(attributes);
+  if (!match) return null;
+  const start = match.index + match[0].length;
+  if (attributes[start] !== "(") return "";
+  let depth = 0;
+  let quote = false;
+  for (let i = start; i < attributes.length; i++) {
+    const ch = attributes[i];
+    if (ch === '"' && attributes[i - 1] !== "\\") quote = !quote;
+    if (quote) continue;
+    if (ch === "(") depth++;
+    else if (ch === ")") {
+      depth--;
+      if (depth === 0) return attributes.slice(start + 1, i);
+    }
+  }
+  return attributes.slice(start + 1);
+}
+
+function stringArg(args: string | null): string | null {
+  const match = args != null ? /^\s*(?:name:\s*)?"((?:[^"\\]|\\.)*)"/.exec(args) : null;
+  return match ? match[1]! : null;
+}
+
+/** Field list from `[a, b(sort: Desc)]` or `fields: [a, b]`. */
+function listArg(args: string | null, key?: string): string[] {
+  if (args == null) return [];
+  const source = key
+    ? (new RegExp(`${key}:\\s*\\[([^\\]]*)\\]`).exec(args)?.[1] ?? null)
+    : /\[([^\]]*)\]/.exec(args)?.[1];
+  if (source == null) return [];
+  return source
+    .split(",")
+    .map((part) => part.trim().replace(/\(.*$/, ""))
+    .filter(Boolean);
+}
+
+function namedArg(args: string | null, key: string): string | null {
+  if (args == null) return null;
+  return new RegExp(`${key}:\\s*("(?:[^"\\\\]|\\\\.)*"|\\w+)`).exec(args)?.[1]?.replace(/^"|"$/g, "") ?? null;
+}
+
+function parseBlocks(source: string): { blocks: PrismaBlock[]; provider: PrismaProvider } {
+  const blocks: PrismaBlock[] = [];
+  let provider: PrismaProvider = "postgresql";
+  let current: PrismaBlock | null = null;
+  let inOtherBlock = false;
+  let doc: string[] = [];
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("///")) {
+      doc.push(line.slice(3).trim());
+      continue;
+    }
+    const code = line.replace(/\s\/\/.*$/, "").replace(/^\/\/.*$/, "");
+    if (!code) continue;
+
+    if (!current && !inOtherBlock) {
+      const open = /^(model|view|enum|datasource|generator|type)\s+(\w+)\s*\{$/.exec(code);
+      if (!open) continue;
+      if (open[1] === "model" || open[1] === "view" || open[1] === "enum") {
+        current = { keyword: open[1], name: open[2]!, fields: [], blockAttributes: [], enumValues: [], doc };
+      } else {
+        inOtherBlock = true;
+      }
+      doc = [];
+      continue;
+    }
+
+    if (code === "}") {
+      if (current) blocks.push(current);
+      current = null;
+      inOtherBlock = false;
+      doc = [];
+      continue;
+    }
+
+    if (inOtherBlock) {
+      const providerMatch = /^provider\s*=\s*"(\w+)"/.exec(code);
+      if (providerMatch) {
+        const value = providerMatch[1]!;
+        if (value === "mysql") provider = "mysql";
+        else if (value === "sqlite") provider = "sqlite";
+        else if (value === "postgresql" || value === "postgres" || value === "cockroachdb") provider = "postgresql";
+      }
+      continue;
+    }
+
+    if (!current) continue;
+    if (code.startsWith("@@")) {
+      current.blockAttributes.push(code);
+    } else if (current.keyword === "enum") {
+      const value = /^(\w+)(.*)$/.exec(code);
+      if (value)
+        current.enumValues.push({ name: value[1]!, mapped: stringArg(attributeArgs(value[2]!, "@map")) ?? value[1]! });
+    } else {
+      const field = /^(\w+)\s+(\w+(?:\.\w+)?)(\[\])?(\?)?\s*(.*)$/.exec(code);
+      if (field) {
+        current.fields.push({
+          name: field[1]!,
+          type: field[2]!,
+          list: field[3] === "[]",
+          optional: field[4] === "?",
+          attributes: field[5] ?? "",
+          doc,
+        });
+      }
+    }
+    doc = [];
+  }
+
+  return { blocks, provider };
+}
+
+function blockAttribute(block: PrismaBlock, name: string): string | null {
+  for (const attr of block.blockAttributes) {
+    const args = attributeArgs(attr, name);
+    if (args != null) return args;
+  }
+  return null;
+}
+
+function blockAttributes(block: PrismaBlock, name: string): string[] {
+  return block.blockAttributes.map((attr) => attributeArgs(attr, name)).filter((a): a is string => a != null);
+}
+
+function formatDefault(expr: string, field: PrismaField, enumNames: Set<string>): string | null {
+  const value = expr.trim();
+  if (value === "autoincrement()") return null;
+  if (value === "now()") return "CURRENT_TIMESTAMP";
+  if (/^(uuid|cuid|nanoid|ulid)\(.*\)$/.test(value)) return null;
+  const generated = /^dbgenerated\((?:"((?:[^"\\]|\\.)*)")?\)$/.exec(value);
+  if (generated) return generated[1] ? generated[1].replace(/\\"/g, '"') : null;
+  if (/^".*"$/.test(value)) return `'${value.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "''")}'`;
+  if (enumNames.has(field.type)) return `'${value}'`;
+  return value;
+}
+
+/** `@db.VarChar(255)` → `VARCHAR(255)`, `@db.Timestamptz(6)` → `TIMESTAMPTZ(6)`. */
+function nativeType(attributes: string): string | null {
+  const match = /@db\.(\w+)(\([^)]*\))?/.exec(attributes);
+  if (!match) return null;
+  return `${match[1]!.toUpperCase()}${match[2] ?? ""}`;
+}
+
+export function convertPrismaSchemaToSql(source: string): string {
+  const { blocks, provider } = parseBlocks(source);
+  const enums = blocks.filter((b) => b.keyword === "enum");
+  const enumNames = new Set(enums.map((e) => e.name));
+  const models = blocks.filter((b) => b.keyword !== "enum");
+  const modelByName = new Map(models.map((m) => [m.name, m]));
+  const statements: string[] = [];
+
+  const schemaOf = (block: PrismaBlock) => stringArg(blockAttribute(block, "@@schema")) ?? "public";
+  const tableOf = (block: PrismaBlock) => stringArg(blockAttribute(block, "@@map")) ?? block.name;
+  const qualified = (block: PrismaBlock) => `${quoteId(schemaOf(block))}.${quoteId(tableOf(block))}`;
+  const columnOf = (block: PrismaBlock, fieldName: string) => {
+    const field = block.fields.find((f) => f.name === fieldName);
+    return (field && stringArg(attributeArgs(field.attributes, "@map"))) ?? fieldName;
+  };
+
+  if (provider === "postgresql") {
+    for (const e of enums) {
+      const name = `${quoteId(schemaOf(e))}.${quoteId(stringArg(blockAttribute(e, "@@map")) ?? e.name)}`;
+      const values = e.enumValues.map((v) => `'${v.mapped.replace(/'/g, "''")}'`).join(", ");
+      statements.push(`CREATE TYPE ${name} AS ENUM (${values});`);
+    }
+  }
+
+  for (const model of models) {
+    const table = qualified(model);
+    const lines: string[] = [];
+    const comments: string[] = [];
+    const singleIds: string[] = [];
+
+    for (const field of model.fields) {
+      if (modelByName.has(field.type)) continue;
+      const column = columnOf(model, field.name);
+      const enumBlock = enums.find((e) => e.name === field.type);
+      let type =
+        nativeType(field.attributes) ??
+        (enumBlock
+          ? provider === "postgresql"
+            ? `${quoteId(schemaOf(enumBlock))}.${quoteId(stringArg(blockAttribute(enumBlock, "@@map")) ?? enumBlock.name)}`
+            : provider === "mysql"
+              ? `ENUM(${enumBlock.enumValues.map((v) => `'${v.mapped}'`).join(", ")})`
+              : "TEXT"
+          : (SCALAR_TYPES[provider][field.type] ?? field.type.toUpperCase()));
+      const defaultArgs = attributeArgs(field.attributes, "@default");
+      if (defaultArgs?.trim() === "autoincrement()") {
+        if (provider === "postgresql") type = field.type === "BigInt" ? "BIGSERIAL" : "SERIAL";
+        else if (provider === "mysql") type = `${type} AUTO_INCREMENT`;
+      }
+      if (field.list) type = `${type}[]`;
+
+      const parts = [`  ${quoteId(column)} ${type}`];
+      if (!field.optional && !field.list) parts.push("NOT NULL");
+      const defaultExpr = defaultArgs != null ? formatDefault(defaultArgs, field, enumNames) : null;
+      if (defaultExpr) parts.push(`DEFAULT ${defaultExpr}`);
+      lines.push(parts.join(" "));
+      if (attributeArgs(field.attributes, "@id") != null) singleIds.push(column);
+      if (field.doc.length > 0) {
+        comments.push(`COMMENT ON COLUMN ${table}.${quoteId(column)} IS '${field.doc.join(" ").replace(/'/g, "''")}';`);
+      }
+    }
+
+    if (model.keyword === "view") {
+      // Prisma views describe their columns but not the query; keep them as a table-shaped outline.
+      statements.push(
+        `CREATE VIEW ${table} AS\n  SELECT ${lines.map((l) => l.trim().split(" ")[0]).join(", ")} FROM ...;`,
+      );
+      continue;
+    }
+
+    const compositeId = listArg(blockAttribute(model, "@@id"));
+    const pkColumns = compositeId.length > 0 ? compositeId.map((f) => columnOf(model, f)) : singleIds;
+    if (pkColumns.length > 0) {
+      lines.push(
+        `  CONSTRAINT ${quoteId(`${tableOf(model)}_pkey`)} PRIMARY KEY (${pkColumns.map(quoteId).join(", ")})`,
+      );
+    }
+    statements.push(`CREATE TABLE ${table} (\n${lines.join(",\n")}\n);`);
+
+    const indexStatements: string[] = [];
+    for (const field of model.fields) {
+      if (modelByName.has(field.type) || attributeArgs(field.attributes, "@unique") == null) continue;
+      const column = columnOf(model, field.name);
+      indexStatements.push(
+        `CREATE UNIQUE INDEX ${quoteId(`${tableOf(model)}_${column}_key`)} ON ${table}(${quoteId(column)});`,
+      );
+    }
+    for (const [attr, unique] of [
+      ["@@unique", true],
+      ["@@index", false],
+    ] as const) {
+      for (const args of blockAttributes(model, attr)) {
+        const columns = listArg(args).map((f) => columnOf(model, f));
+        if (columns.length === 0) continue;
+        const name =
+          namedArg(args, "map") ??
+          namedArg(args, "name") ??
+          `${tableOf(model)}_${columns.join("_")}_${unique ? "key" : "idx"}`;
+        indexStatements.push(
+          `CREATE ${unique ? "UNIQUE " : ""}INDEX ${quoteId(name)} ON ${table}(${columns.map(quoteId).join(", ")});`,
+        );
+      }
+    }
+    statements.push(...indexStatements);
+
+    for (const field of model.fields) {
+      const target = modelByName.get(field.type);
+      const relation = attributeArgs(field.attributes, "@relation");
+      if (!target || relation == null) continue;
+      const fields = listArg(relation, "fields").map((f) => columnOf(model, f));
+      const references = listArg(relation, "references").map((f) => columnOf(target, f));
+      if (fields.length === 0 || references.length === 0) continue;
+      const onDelete = namedArg(relation, "onDelete");
+      const onUpdate = namedArg(relation, "onUpdate");
+      const actions = [
+        onDelete ? ` ON DELETE ${onDelete.replace(/([a-z])([A-Z])/g, "$1 $2").toUpperCase()}` : "",
+        onUpdate ? ` ON UPDATE ${onUpdate.replace(/([a-z])([A-Z])/g, "$1 $2").toUpperCase()}` : "",
+      ].join("");
+      statements.push(
+        `ALTER TABLE ${table} ADD CONSTRAINT ${quoteId(`${tableOf(model)}_${fields.join("_")}_fkey`)} FOREIGN KEY (${fields.map(quoteId).join(", ")}) REFERENCES ${qualified(target)}(${references.map(quoteId).join(", ")})${actions};`,
+      );
+    }
+    if (model.doc.length > 0) {
+      statements.push(`COMMENT ON TABLE ${table} IS '${model.doc.join(" ").replace(/'/g, "''")}';`);
+    }
+    statements.push(...comments);
+  }
+
+  return statements.join("\n\n");
+}
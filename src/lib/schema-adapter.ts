@@ -0,0 +1,126 @@
+import type { DdlExtraKind, DependencyCacheEntry, EnumCacheEntry, TableCacheEntry } from "./cache";
+import type { DatabaseType, StoredDatabase } from "./databases";
+
+export type SchemaDdlResult = {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, TableCacheEntry["type"]>;
+  /** Partition key -> key of its partitioned parent, for sources that have partitions. */
+  tableParents?: Map<string, string>;
+  /** Key -> body-less DDL for functions and procedures. */
+  signatures?: Map<string, string>;
+  /** Key -> optional DDL sections (triggers, policies, grants) appended when enabled for the database. */
+  extras?: Map<string, Partial<Record<DdlExtraKind, string>>>;
+  /** Enum types keyed by schema.name, for sources with standalone enums. */
+  enums?: Map<string, EnumCacheEntry>;
+  /** Key -> keys of the enums its columns use. */
+  tableEnums?: Map<string, string[]>;
+  /** Extensions, domains, composite types and sequences keyed "kind:name", for sources that have them. */
+  dependencies?: Map<string, DependencyCacheEntry>;
+  /** Key -> keys of the dependencies its columns use. */
+  tableDependencies?: Map<string, string[]>;
+  /** Key -> final column list, for sources whose DDL is a CREATE followed by ALTERs. */
+  tableColumns?: Map<string, TableCacheEntry["columns"]>;
+};
+
+/** A database on the same server, as listed for discovery or database selection. */
+export type ServerDatabase = {
+  name: string;
+  /** On-disk size; null when it could not be read. */
+  sizeBytes: number | null;
+};
+
+export type DiscoveredDatabase = ServerDatabase & {
+  /** The connecting user may connect to this database. */
+  canConnect: boolean;
+  /** Connection string for this database: the server connection string with the database name swapped in. */
+  connectionString: string;
+};
+
+/** Listing the other databases on a server so several can be added at once, each as its own entry. */
+export type ServerDiscovery = {
+  discover(connectionString: string): Promise<DiscoveredDatabase[]>;
+  /** Same database regardless of credentials, so ones already added are not added twice. */
+  isSameDatabase(a: string, b: string): boolean;
+  /** Default name prefix for the added databases, e.g. the host. */
+  serverLabel(connectionString: string): string;
+};
+
+/** One connection reaching several databases, of which the ones to sync are chosen per database. */
+export type DatabaseSelection = {
+  list(connectionString: string): Promise<ServerDatabase[]>;
+  /** Databases synced while none are chosen. */
+  defaults(connectionString: string, available: ServerDatabase[]): string[];
+  /** Describes the defaults, shown while none are chosen. */
+  defaultsLabel: string;
+  /** Shown above the checkboxes: what syncing a database covers and which are left out by default. */
+  formDescription: string;
+};
+
+/** What a sync can do beyond DDL, and the per-database settings Manage Databases offers for it. */
+export type AdapterCapabilities = {
+  /** Sync generates DBML alongside DDL. */
+  dbml: boolean;
+  /** Triggers, policies and grants can be appended to table DDL (StoredDatabase.ddlExtras). */
+  ddlExtras?: boolean;
+  /** Partitions are cached with their parent key and can be left out of copies (hidePartitionsFromCopies). */
+  partitions?: boolean;
+  /** Routines are cached with body-less signatures that can replace full definitions (functionSignaturesOnly). */
+  functionSignatures?: boolean;
+  /** Fields are inferred from sampled documents; the default number per collection (mongoSampleSize). */
+  sampleSize?: number;
+  /** Which databases to sync can be chosen (mongoDatabases). */
+  databaseSelection?: DatabaseSelection;
+  serverDiscovery?: ServerDiscovery;
+};
+
+/** Sources whose "connection string" is a local path, shown unmasked in a plain text field. */
+export type LocalSourceField = {
+  title: string;
+};
+
+/**
+ * Everything the extension needs to know about one engine: how it appears in the forms,
+ * how a connection string is checked, and how its schema is fetched and turned into DDL/DBML.
+ * Adapters are registered in adapters.ts; sync and the commands render from that registry.
+ */
+export interface SchemaAdapter<TData = unknown> {
+  type: DatabaseType;
+  /** Short name shown in lists and detail views, e.g. "MySQL". */
+  label: string;
+  /** Name shown in the Add Database type dropdown, e.g. "MySQL / MariaDB". */
+  formTitle: string;
+  placeholder: string;
+  localSource?: LocalSourceField;
+  /** Shown while syncing, e.g. "Fetching tables and views from MySQL". */
+  syncDescription: string;
+  capabilities: AdapterCapabilities;
+  /** Returns an error message when the connection string cannot be used, checked before saving and syncing. */
+  validateConnectionString(connectionString: string): string | undefined;
+  /** Connect, read the catalog and disconnect. The stored database carries per-database sync settings. */
+  fetchSchemaData(connectionString: string, db: StoredDatabase): Promise<TData>;
+  buildDdl(data: TData): SchemaDdlResult;
+  buildDbml?(data: TData): Map<string, string>;
+  /** Enum key -> DBML Enum block, stored on the cached enum so combined DBML emits each once. */
+  buildEnumDbml?(data: TData): Map<string, string>;
+  /** Catalog parts the server did not support, and fields to store on the database after a successful sync. */
+  syncMetadata?(data: TData): { skipped?: string[]; databasePatch?: Partial<Omit<StoredDatabase, "id">> };
+  /** Optional hint in the Sync Schema picker, e.g. that a local file changed since the last sync. */
+  syncStatus?(db: StoredDatabase): string | undefined;
+}
+
+/**
+ * Validator for URL-style connection strings: valid when the engine's own parser accepts it.
+ */
+export function validateWithParser(
+  label: string,
+  parse: (connectionString: string) => unknown,
+): (connectionString: string) => string | undefined {
+  return (connectionString) => {
+    try {
+      parse(connectionString);
+      return undefined;
+    } catch {
+      return `Invalid ${label} connection string`;
+    }
+  };
+}
@@ -0,0 +1,193 @@
+import { isRoutine, type SchemaCache, type TableCacheEntry } from "./cache";
+import { parseCreateTableColumns, type SqlFileColumn } from "./sql-file-schema";
+
+export type ColumnDifference =
+  | { kind: "missing"; column: string; type: string; side: "left" | "right" }
+  | { kind: "type"; column: string; leftType: string; rightType: string };
+
+export type TableDifference = {
+  key: string;
+  differences: ColumnDifference[];
+};
+
+export type SchemaComparison = {
+  onlyLeft: string[];
+  onlyRight: string[];
+  changed: TableDifference[];
+  matchedCount: number;
+};
+
+/** Spellings of the same type across dumps, live catalogs and generated DDL. */
+const TYPE_ALIASES: Record<string, string> = {
+  int: "integer",
+  int4: "integer",
+  serial: "integer",
+  serial4: "integer",
+  int8: "bigint",
+  bigserial: "bigint",
+  serial8: "bigint",
+  int2: "smallint",
+  smallserial: "smallint",
+  bool: "boolean",
+  varchar: "character varying",
+  char: "character",
+  float8: "double precision",
+  float4: "real",
+  decimal: "numeric",
+  timestamptz: "timestamp with time zone",
+  timestamp: "timestamp without time zone",
+  timetz: "time with time zone",
+  time: "time without time zone",
+};
+
+function normalizeType(type: string): string {
+  let t = type
+    .toLowerCase()
+    .replace(/"/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s*\(\s*/g, "(")
+    .replace(/\s*,\s*/g, ",")
+    .replace(/\s*\)/g, ")")
+    .replace(/^(pg_catalog|public)\./, "")
+    .trim();
+  const match = /^([a-z0-9_ ]+?)(\(.*\))?(\[\])?$/.exec(t);
+  if (match) {
+    const base = TYPE_ALIASES[match[1]!] ?? match[1]!;
+    const args = match[2] ?? "";
+    // timestamp(3) and timestamp(3) without time zone are the same type.
+    const withPrecision = /^(timestamp|time) (with|without) time zone$/.exec(base);
+    t = withPrecision && args ? `${withPrecision[1]}${args} ${withPrecision[2]} time zone` : `${base}${args}`;
+    t += match[3] ?? "";
+  }
+  return t;
+}
+
+/** Table name without its schema, for matching when the two sources use different schema names. */
+function baseName(key: string): string {
+  return key.slice(key.indexOf(".") + 1).toLowerCase();
+}
+
+/**
+ * Pair up keys from two caches: exact key first, then by table name alone when it is unambiguous
+ * (e.g. a MySQL database name vs the "public" schema of a dump).
+ */
+function matchKeys(
+  left: string[],
+  right: string[],
+): { pairs: [string, string][]; onlyLeft: string[]; onlyRight: string[] } {
+  const rightSet = new Set(right);
+  const pairs: [string, string][] = [];
+  const unmatchedLeft: string[] = [];
+  for (const key of left) {
+    if (rightSet.has(key)) {
+      pairs.push([key, key]);
+      rightSet.delete(key);
+    } else {
+      unmatchedLeft.push(key);
+    }
+  }
+  const onlyLeft: string[] = [];
+  for (const key of unmatchedLeft) {
+    const candidates = Array.from(rightSet).filter((r) => baseName(r) === baseName(key));
+    if (candidates.length === 1) {
+      pairs.push([key, candidates[0]!]);
+      rightSet.delete(candidates[0]!);
+    } else {
+      onlyLeft.push(key);
+    }
+  }
+  return { pairs, onlyLeft, onlyRight: Array.from(rightSet) };
+}
+
+/** Same type, or the same base type where only one side states a length/precision (live catalogs often omit it). */
+function typesMatch(left: string, right: string): boolean {
+  const a = normalizeType(left);
+  const b = normalizeType(right);
+  if (a === b) return true;
+  const stripArgs = (t: string) => t.replace(/\([^)]*\)/g, "");
+  return stripArgs(a) === stripArgs(b) && (!a.includes("(") || !b.includes("("));
+}
+
+function compareColumns(left: SqlFileColumn[], right: SqlFileColumn[]): ColumnDifference[] {
+  const differences: ColumnDifference[] = [];
+  const rightByName = new Map(right.map((c) => [c.name.toLowerCase(), c]));
+  for (const col of left) {
+    const other = rightByName.get(col.name.toLowerCase());
+    if (!other) {
+      differences.push({ kind: "missing", column: col.name, type: col.type, side: "left" });
+      continue;
+    }
+    rightByName.delete(col.name.toLowerCase());
+    if (!typesMatch(col.type, other.type)) {
+      differences.push({ kind: "type", column: col.name, leftType: col.type, rightType: other.type });
+    }
+  }
+  for (const col of rightByName.values()) {
+    differences.push({ kind: "missing", column: col.name, type: col.type, side: "right" });
+  }
+  return differences;
+}
+
+/**
+ * Columns of a cached table: the final list stored by schema files (whose ddl is a CREATE TABLE followed
+ * by the ALTERs that changed it), otherwise read back from the CREATE TABLE of a live sync.
+ */
+function cachedColumns(entry: TableCacheEntry): SqlFileColumn[] {
+  return entry.columns ?? parseCreateTableColumns(entry.ddl);
+}
+
+/**
+ * Compare two schema caches table by table, so any SQL source can be compared with any other
+ * (e.g. a repo's schema file against a live sync).
+ */
+export function compareSchemaCaches(left: SchemaCache, right: SchemaCache): SchemaComparison {
+  const tableKeys = (cache: SchemaCache) => Object.keys(cache.tables).filter((key) => !isRoutine(cache.tables[key]!));
+  const { pairs, onlyLeft, onlyRight } = matchKeys(tableKeys(left), tableKeys(right));
+  const changed: TableDifference[] = [];
+  for (const [leftKey, rightKey] of pairs) {
+    const differences = compareColumns(cachedColumns(left.tables[leftKey]!), cachedColumns(right.tables[rightKey]!));
+    if (differences.length > 0) changed.push({ key: leftKey, differences });
+  }
+  return {
+    onlyLeft: onlyLeft.sort(),
+    onlyRight: onlyRight.sort(),
+    changed: changed.sort((a, b) => a.key.localeCompare(b.key)),
+    matchedCount: pairs.length,
+  };
+}
+
+export function formatSchemaComparison(comparison: SchemaComparison, leftName: string, rightName: string): string {
+  const lines: string[] = [`# ${leftName} vs ${rightName}`, ""];
+  const identical = comparison.matchedCount - comparison.changed.length;
+  lines.push(
+    `${comparison.matchedCount} tables in both, ${identical} identical. ${comparison.onlyLeft.length} only in ${leftName}, ${comparison.onlyRight.length} only in ${rightName}.`,
+  );
+  lines.push("");
+
+  if (comparison.onlyLeft.length > 0) {
+    lines.push(`## Only in ${leftName}`, ...comparison.onlyLeft.map((k) => `- \`${k}\``), "");
+  }
+  if (comparison.onlyRight.length > 0) {
+    lines.push(`## Only in ${rightName}`, ...comparison.onlyRight.map((k) => `- \`${k}\``), "");
+  }
+  if (comparison.changed.length > 0) {
+    lines.push("## Column differences");
+    for (const table of comparison.changed) {
+      lines.push("", `### ${table.key}`);
+      for (const diff of table.differences) {
+        if (diff.kind === "missing") {
+          const where = diff.side === "left" ? leftName : rightName;
+          lines.push(`- \`${diff.column}\` (${diff.type || "unknown type"}) only in ${where}`);
+        } else {
+          lines.push(
+            `- \`${diff.column}\`: \`${diff.leftType}\` in ${leftName}, \`${diff.rightType}\` in ${rightName}`,
+          );
+        }
+      }
+    }
+  }
+  if (comparison.onlyLeft.length === 0 && comparison.onlyRight.length === 0 && comparison.changed.length === 0) {
+    lines.push("_No differences found._");
+  }
+  return lines.join("\n").trimEnd();
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export type SchemaFileSource = {
+  /** "sql" for a dump or schema.sql, "prisma" for schema.prisma, "migrations" for a folder of .sql files. */
+  kind: "sql" | "prisma" | "migrations";
+  path: string;
+};
+
+function expandPath(connectionString: string): string {
+  let p = connectionString.trim();
+  if (p.startsWith("file://")) p = decodeURIComponent(p.slice("file://".length));
+  if (p === "~" || p.startsWith("~/")) p = path.join(os.homedir(), p.slice(1));
+  return path.resolve(p);
+}
+
+/**
+ * Resolve a schema file "connection string" (a path, optionally starting with ~) to its source.
+ * A folder is read as migrations, unless it holds a schema.prisma. Returns null when the path does not exist.
+ */
+export function resolveSchemaFileSource(connectionString: string): SchemaFileSource | null {
+  const resolved = expandPath(connectionString);
+  try {
+    const stat = fs.statSync(resolved);
+    if (stat.isDirectory()) {
+      const prismaPath = path.join(resolved, "schema.prisma");
+      if (fs.existsSync(prismaPath)) return { kind: "prisma", path: prismaPath };
+      return { kind: "migrations", path: resolved };
+    }
+    return { kind: resolved.endsWith(".prisma") ? "prisma" : "sql", path: resolved };
+  } catch {
+    return null;
+  }
+}
+
+/** Down migrations kept as their own file: down.sql (Diesel), *_down.sql and *.down.sql. */
+const DOWN_MIGRATION_FILE = /(^|[._])down\.sql$/i;
+
+/** Start of the down section in single-file up/down migrations (dbmate, goose). */
+const DOWN_SECTION_MARKER = /^[ \t]*--[ \t]*(?:migrate:down|\+goose[ \t]+down)\b/im;
+
+/**
+ * Up-migration .sql files under a folder (including one level of per-migration subfolders, as Prisma
+ * and many tools use), in natural order so V2 sorts before V10. Down migration files are skipped.
+ */
+export function listMigrationFiles(folder: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string, depth: number) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory() && depth < 2 && !entry.name.startsWith(".")) walk(full, depth + 1);
+      else if (entry.isFile() && entry.name.endsWith(".sql") && !DOWN_MIGRATION_FILE.test(entry.name)) files.push(full);
+    }
+  };
+  walk(folder, 0);
+  return files.sort((a, b) =>
+    path.relative(folder, a).localeCompare(path.relative(folder, b), undefined, { numeric: true }),
+  );
+}
+
+/** A migration file's up section: anything after a dbmate `-- migrate:down` or goose `-- +goose Down` line is cut. */
+export function readMigrationFile(file: string): string {
+  const sql = fs.readFileSync(file, "utf-8");
+  const down = DOWN_SECTION_MARKER.exec(sql);
+  return down ? sql.slice(0, down.index) : sql;
+}
+
+/** Latest modification time among the source's files, or null when they cannot be read. */
+export function getSchemaFileModifiedAt(connectionString: string): Date | null {
+  const source = resolveSchemaFileSource(connectionString);
+  if (!source) return null;
+  try {
+    const files = source.kind === "migrations" ? listMigrationFiles(source.path) : [source.path];
+    const times = files.map((f) => fs.statSync(f).mtime.getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  } catch {
+    return null;
+  }
+}
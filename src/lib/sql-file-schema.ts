@@ -0,0 +1,515 @@
+import type { EnumCacheEntry, TableCacheEntry } from "./cache";
+
+export type SqlFileColumn = {
+  name: string;
+  type: string;
+};
+
+export type SqlFileObject = {
+  schema: string;
+  name: string;
+  kind: TableCacheEntry["type"];
+  /** CREATE statement followed by later ALTER / CREATE INDEX / COMMENT statements, in file order. */
+  statements: string[];
+  columns: SqlFileColumn[];
+};
+
+export type SqlFileSchemaData = {
+  /** Keyed by schema.name. */
+  objects: Map<string, SqlFileObject>;
+  /** Enum labels keyed by schema.name. */
+  enums: Map<string, string[]>;
+};
+
+const DEFAULT_SCHEMA = "public";
+
+/** Words that end a column's type in a column definition. */
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  "not",
+  "null",
+  "default",
+  "primary",
+  "references",
+  "constraint",
+  "check",
+  "unique",
+  "generated",
+  "collate",
+  "auto_increment",
+  "autoincrement",
+  "comment",
+  "identity",
+  "on",
+]);
+
+/** Table elements that are constraints or index definitions rather than columns. */
+const TABLE_CONSTRAINT_PATTERN =
+  /^(constraint\s|primary\s+key|foreign\s+key|unique\s*(\(|key\b|index\b|nulls\b)|check\s*\(|exclude\s|like\s|(key|index|fulltext|spatial)\s+[^\s(]*\s*\(|(key|index)\s*\()/i;
+
+/**
+ * Split SQL text into statements on top-level semicolons. Comments are dropped; string literals,
+ * quoted identifiers and dollar-quoted bodies are kept intact. psql meta-commands (\connect) and
+ * COPY ... FROM stdin data blocks are skipped.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let i = 0;
+  const text = sql.replace(/\r\n/g, "\n");
+  while (i < text.length) {
+    const ch = text[i]!;
+    const next = text[i + 1];
+    const atLineStart = i === 0 || text[i - 1] === "\n";
+
+    if (atLineStart && ch === "\\") {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end + 1;
+      continue;
+    }
+    if (ch === "-" && next === "-") {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+      current += " ";
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") {
+      let j = i + 1;
+      while (j < text.length) {
+        if (text[j] === ch) {
+          if (text[j + 1] === ch) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        if (ch === "'" && text[j] === "\\" && text[i - 1]?.toLowerCase() === "e") j++;
+        j++;
+      }
+      current += text.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+    if (ch === "$") {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(text.slice(i))?.[0];
+      if (tag) {
+        const end = text.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? text.length : end + tag.length;
+        current += text.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+    if (ch === ";") {
+      const statement = current.trim();
+      if (statement) statements.push(statement);
+      current = "";
+      i++;
+      if (/^copy\s[\s\S]*\sfrom\s+stdin/i.test(statement)) {
+        const end = text.indexOf("\n\\.", i);
+        i = end === -1 ? text.length : end + 3;
+      }
+      continue;
+    }
+    current += ch;
+    i++;
+  }
+  const last = current.trim();
+  if (last) statements.push(last);
+  return statements;
+}
+
+/** Read one identifier (quoted or bare) from the start of `text`; bare names fold to lower case as in Postgres. */
+function readIdentifier(text: string): { name: string; rest: string } | null {
+  const trimmed = text.trimStart();
+  const quote = trimmed[0];
+  if (quote === '"' || quote === "`" || quote === "[") {
+    const close = quote === "[" ? "]" : quote;
+    let j = 1;
+    let name = "";
+    while (j < trimmed.length) {
+      if (trimmed[j] === close) {
+        if (trimmed[j + 1] === close && close !== "]") {
+          name += close;
+          j += 2;
+          continue;
+        }
+        break;
+      }
+      name += trimmed[j];
+      j++;
+    }
+    return { name, rest: trimmed.slice(j + 1) };
+  }
+  const match = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(trimmed);
+  if (!match) return null;
+  return { name: match[0].toLowerCase(), rest: trimmed.slice(match[0].length) };
+}
+
+/** Read a possibly schema-qualified name (`schema.table`, `"Schema"."Table"`, `db.schema.table`). */
+function readQualifiedName(text: string, defaultSchema: string): { schema: string; name: string; rest: string } | null {
+  const parts: string[] = [];
+  let rest = text;
+  for (;;) {
+    const part = readIdentifier(rest);
+    if (!part) break;
+    parts.push(part.name);
+    rest = part.rest;
+    if (!rest.startsWith(".")) break;
+    rest = rest.slice(1);
+  }
+  if (parts.length === 0) return null;
+  const name = parts[parts.length - 1]!;
+  const schema = parts.length > 1 ? parts[parts.length - 2]! : defaultSchema;
+  return { schema, name, rest };
+}
+
+/** Split on commas that are not nested in parentheses or quotes. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") quote = ch;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "," && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** The text inside the first top-level parenthesis group, e.g. a CREATE TABLE body. */
+function parenthesizedBody(text: string): string | null {
+  const open = text.indexOf("(");
+  if (open === -1) return null;
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") quote = ch;
+    else if (ch === "(") depth++;
+    else if (ch === ")") {
+      depth--;
+      if (depth === 0) return text.slice(open + 1, i);
+    }
+  }
+  return null;
+}
+
+/** Parse `name type [constraints]` into a column, or null for table constraints. */
+function parseColumnDefinition(element: string): SqlFileColumn | null {
+  if (TABLE_CONSTRAINT_PATTERN.test(element)) return null;
+  const ident = readIdentifier(element);
+  if (!ident) return null;
+  const typeWords: string[] = [];
+  let depth = 0;
+  for (const word of ident.rest.trim().split(/\s+/)) {
+    if (depth === 0 && COLUMN_CONSTRAINT_WORDS.has(word.toLowerCase().replace(/\(.*$/, ""))) break;
+    typeWords.push(word);
+    depth += (word.match(/\(/g)?.length ?? 0) - (word.match(/\)/g)?.length ?? 0);
+  }
+  return { name: ident.name, type: typeWords.join(" ") };
+}
+
+/** Columns of the first CREATE TABLE statement in a DDL string (used to compare caches from any SQL engine). */
+export function parseCreateTableColumns(ddl: string): SqlFileColumn[] {
+  const statement = splitSqlStatements(ddl).find((s) => /^create\s+(?:\w+\s+)*?table\s/i.test(s));
+  if (!statement) return [];
+  const body = parenthesizedBody(statement);
+  if (!body) return [];
+  return splitTopLevel(body)
+    .map(parseColumnDefinition)
+    .filter((c): c is SqlFileColumn => c != null);
+}
+
+/** Type name as an enum lookup key: array suffix removed, bare names folded to lower case. */
+function stripTypeName(type: string): string {
+  const base = type.replace(/\[\]$/, "").trim();
+  return base.includes('"') ? base.replace(/"/g, "") : base.toLowerCase();
+}
+
+/**
+ * Replay schema statements (a pg_dump, a schema.sql, or migrations concatenated in order) into
+ * per-object DDL. DROP and ALTER ... RENAME are applied so a migrations folder yields its final state.
+ */
+export function parseSqlSchema(sql: string): SqlFileSchemaData {
+  const objects = new Map<string, SqlFileObject>();
+  const enums = new Map<string, string[]>();
+  const indexOwners = new Map<string, string>();
+  let defaultSchema = DEFAULT_SCHEMA;
+
+  const findKey = (schema: string, name: string) => `${schema}.${name}`;
+
+  for (const statement of splitSqlStatements(sql)) {
+    const normalized = statement.replace(/\s+/g, " ");
+
+    const searchPath = /^set\s+search_path\s*(?:=|to)\s*(.+)$/i.exec(normalized);
+    if (searchPath) {
+      const first = searchPath[1]!
+        .split(",")[0]!
+        .trim()
+        .replace(/^['"]|['"]$/g, "");
+      if (first && first !== "pg_catalog") defaultSchema = first;
+      continue;
+    }
+
+    const createTable =
+      /^create\s+(?:or\s+replace\s+)?(?:(?:global|local)\s+)?(?:temp|temporary|unlogged)?\s*table\s+(?:if\s+not\s+exists\s+)?/i.exec(
+        normalized,
+      );
+    if (createTable) {
+      const target = readQualifiedName(normalized.slice(createTable[0].length), defaultSchema);
+      if (!target) continue;
+      const body = parenthesizedBody(target.rest);
+      const columns = body
+        ? splitTopLevel(body)
+            .map(parseColumnDefinition)
+            .filter((c): c is SqlFileColumn => c != null)
+        : [];
+      objects.set(findKey(target.schema, target.name), {
+        schema: target.schema,
+        name: target.name,
+        kind: "table",
+        statements: [`${statement};`],
+        columns,
+      });
+      continue;
+    }
+
+    const createView =
+      /^create\s+(?:or\s+replace\s+)?(?:(?:temp|temporary|recursive)\s+)?(materialized\s+)?view\s+(?:if\s+not\s+exists\s+)?/i.exec(
+        normalized,
+      );
+    if (createView) {
+      const target = readQualifiedName(normalized.slice(createView[0].length), defaultSchema);
+      if (!target) continue;
+      objects.set(findKey(target.schema, target.name), {
+        schema: target.schema,
+        name: target.name,
+        kind: createView[1] ? "materialized_view" : "view",
+        statements: [`${statement};`],
+        columns: [],
+      });
+      continue;
+    }
+
+    const createIndex =
+      /^create\s+(?:unique\s+)?index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?(?:(.+?)\s+)?on\s+(?:only\s+)?/i.exec(
+        normalized,
+      );
+    if (createIndex) {
+      const target = readQualifiedName(normalized.slice(createIndex[0].length), defaultSchema);
+      const object = target ? objects.get(findKey(target.schema, target.name)) : undefined;
+      if (!target || !object) continue;
+      object.statements.push(`${statement};`);
+      const indexName = createIndex[1] ? readIdentifier(createIndex[1]) : null;
+      if (indexName) indexOwners.set(indexName.name, findKey(target.schema, target.name));
+      continue;
+    }
+
+    const createEnum = /^create\s+type\s+/i.exec(normalized);
+    if (createEnum && /\sas\s+enum\s*\(/i.test(normalized)) {
+      const target = readQualifiedName(normalized.slice(createEnum[0].length), defaultSchema);
+      const body = parenthesizedBody(normalized.slice(normalized.search(/\sas\s+enum\s*\(/i)));
+      if (!target || body == null) continue;
+      enums.set(
+        findKey(target.schema, target.name),
+        splitTopLevel(body).map((label) => label.replace(/^'|'$/g, "").replace(/''/g, "'")),
+      );
+      continue;
+    }
+
+    const alterEnum = /^alter\s+type\s+/i.exec(normalized);
+    if (alterEnum) {
+      const target = readQualifiedName(normalized.slice(alterEnum[0].length), defaultSchema);
+      const added = /add\s+value\s+(?:if\s+not\s+exists\s+)?'((?:[^']|'')*)'/i.exec(normalized);
+      const labels = target ? enums.get(findKey(target.schema, target.name)) : undefined;
+      if (labels && added && !labels.includes(added[1]!)) labels.push(added[1]!.replace(/''/g, "'"));
+      continue;
+    }
+
+    const alterTable = /^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?/i.exec(normalized);
+    if (alterTable) {
+      const target = readQualifiedName(normalized.slice(alterTable[0].length), defaultSchema);
+      if (!target) continue;
+      const key = findKey(target.schema, target.name);
+      const object = objects.get(key);
+      if (!object) continue;
+      const action = target.rest.trim();
+      if (/^owner\s+to\s/i.test(action)) continue;
+
+      const renameTable = /^rename\s+to\s+(.+)$/i.exec(action);
+      if (renameTable) {
+        const newName = readIdentifier(renameTable[1]!);
+        if (!newName) continue;
+        objects.delete(key);
+        object.name = newName.name;
+        object.statements.push(`${statement};`);
+        objects.set(findKey(object.schema, object.name), object);
+        continue;
+      }
+      // RENAME CONSTRAINT renames a constraint, not a column.
+      const renameColumn = /^rename\s+(?!constraint\s)(?:column\s+)?(.+?)\s+to\s+(.+)$/i.exec(action);
+      if (renameColumn) {
+        const from = readIdentifier(renameColumn[1]!);
+        const to = readIdentifier(renameColumn[2]!);
+        const column = object.columns.find((c) => c.name === from?.name);
+        if (column && to) column.name = to.name;
+      }
+      for (const part of splitTopLevel(action)) {
+        const addColumn = /^add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?/i.exec(part);
+        if (addColumn && !/^add\s+(constraint|primary|unique|foreign|check|exclude|index|key)\s/i.test(part)) {
+          const column = parseColumnDefinition(part.slice(addColumn[0].length));
+          if (column) object.columns.push(column);
+        }
+        const dropColumn = /^drop\s+(?:column\s+)?(?:if\s+exists\s+)?/i.exec(part);
+        if (dropColumn && !/^drop\s+(constraint|default|not)\s/i.test(part)) {
+          const column = readIdentifier(part.slice(dropColumn[0].length));
+          if (column) object.columns = object.columns.filter((c) => c.name !== column.name);
+        }
+        const alterType = /^alter\s+(?:column\s+)?(.+?)\s+(?:set\s+data\s+)?type\s+(.+?)(?:\s+using\s.*)?$/i.exec(part);
+        if (alterType) {
+          const column = readIdentifier(alterType[1]!);
+          const existing = object.columns.find((c) => c.name === column?.name);
+          if (existing) existing.type = alterType[2]!.trim();
+        }
+      }
+      object.statements.push(`${statement};`);
+      continue;
+    }
+
+    const drop = /^drop\s+(table|view|materialized\s+view|index|type)\s+(?:concurrently\s+)?(?:if\s+exists\s+)?/i.exec(
+      normalized,
+    );
+    if (drop) {
+      const kind = drop[1]!.toLowerCase();
+      for (const part of splitTopLevel(normalized.slice(drop[0].length).replace(/\s+(cascade|restrict)\s*$/i, ""))) {
+        const target = readQualifiedName(part, defaultSchema);
+        if (!target) continue;
+        if (kind === "index") {
+          const owner = objects.get(indexOwners.get(target.name) ?? "");
+          if (owner) {
+            owner.statements = owner.statements.filter(
+              (s) => !/^create\s+(unique\s+)?index/i.test(s) || readIdentifierAfterIndex(s) !== target.name,
+            );
+          }
+        } else if (kind === "type") {
+          enums.delete(findKey(target.schema, target.name));
+        } else {
+          objects.delete(findKey(target.schema, target.name));
+        }
+      }
+      continue;
+    }
+
+    const comment = /^comment\s+on\s+(table|view|materialized\s+view|column)\s+/i.exec(normalized);
+    if (comment) {
+      const target = readQualifiedName(normalized.slice(comment[0].length), defaultSchema);
+      if (!target) continue;
+      // For COLUMN comments the qualified name is schema.table.column, so the table is one level up.
+      const ownerKey =
+        comment[1]!.toLowerCase() === "column"
+          ? ownerOfColumnComment(normalized.slice(comment[0].length), defaultSchema)
+          : findKey(target.schema, target.name);
+      const object = ownerKey ? objects.get(ownerKey) : undefined;
+      if (object) object.statements.push(`${statement};`);
+      continue;
+    }
+    // Functions, sequences, triggers, grants etc. are not tied to a cached object.
+  }
+
+  return { objects, enums };
+}
+
+function readIdentifierAfterIndex(statement: string): string | undefined {
+  const match = /^create\s+(?:unique\s+)?index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?/i.exec(statement);
+  if (!match) return undefined;
+  return readIdentifier(statement.slice(match[0].length))?.name;
+}
+
+function ownerOfColumnComment(text: string, defaultSchema: string): string | null {
+  const parts: string[] = [];
+  let rest = text;
+  for (;;) {
+    const part = readIdentifier(rest);
+    if (!part) break;
+    parts.push(part.name);
+    rest = part.rest;
+    if (!rest.startsWith(".")) break;
+    rest = rest.slice(1);
+  }
+  if (parts.length < 2) return null;
+  const table = parts[parts.length - 2]!;
+  const schema = parts.length > 2 ? parts[parts.length - 3]! : defaultSchema;
+  return `${schema}.${table}`;
+}
+
+function quoteName(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Per-object DDL and final table columns, plus one entry per enum with the columns that use it. */
+export function buildSqlFileSchemaDdl(data: SqlFileSchemaData): {
+  tableDdls: Map<string, string>;
+  tableTypes: Map<string, TableCacheEntry["type"]>;
+  enums: Map<string, EnumCacheEntry>;
+  tableEnums: Map<string, string[]>;
+  tableColumns: Map<string, SqlFileColumn[]>;
+} {
+  const tableDdls = new Map<string, string>();
+  const tableTypes = new Map<string, TableCacheEntry["type"]>();
+  const enumUsedBy = new Map<string, string[]>();
+  const tableEnums = new Map<string, string[]>();
+  const tableColumns = new Map<string, SqlFileColumn[]>();
+
+  for (const [key, object] of Array.from(data.objects.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
+    for (const column of object.columns) {
+      const typeName = stripTypeName(column.type);
+      const candidates = [
+        typeName.includes(".") ? typeName : `${object.schema}.${typeName}`,
+        `${DEFAULT_SCHEMA}.${typeName}`,
+      ];
+      const enumKey = candidates.find((k) => data.enums.has(k));
+      if (!enumKey) continue;
+      enumUsedBy.set(enumKey, [...(enumUsedBy.get(enumKey) ?? []), `${key}.${column.name}`]);
+      const keys = tableEnums.get(key) ?? [];
+      if (!keys.includes(enumKey)) tableEnums.set(key, [...keys, enumKey]);
+    }
+    tableDdls.set(key, object.statements.join("\n\n"));
+    tableTypes.set(key, object.kind);
+    if (object.kind === "table") tableColumns.set(key, object.columns);
+  }
+
+  const enums = new Map<string, EnumCacheEntry>();
+  for (const [key, labels] of data.enums) {
+    const dot = key.indexOf(".");
+    const schema = key.slice(0, dot);
+    const values = labels.map((l) => `'${l.replace(/'/g, "''")}'`).join(", ");
+    enums.set(key, {
+      ddl: `CREATE TYPE ${quoteName(schema)}.${quoteName(key.slice(dot + 1))} AS ENUM (${values});`,
+      schema,
+      values: labels,
+      usedBy: enumUsedBy.get(key) ?? [],
+    });
+  }
+
+  return { tableDdls, tableTypes, enums, tableEnums, tableColumns };
+}
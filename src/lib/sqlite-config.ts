@@ -0,0 +1,38 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Resolve a SQLite "connection string" to an absolute file path.
+ * Accepts a plain path (optionally starting with ~), or a sqlite:// / file: URL.
+ */
+export function resolveSqlitePath(connectionString: string): string {
+  let p = connectionString.trim();
+  if (p.startsWith("sqlite://")) p = p.slice("sqlite://".length);
+  else if (p.startsWith("file:")) p = p.slice("file:".length).replace(/^\/\/(?=\/)/, "");
+  p = decodeURIComponent(p);
+  if (p === "~" || p.startsWith("~/")) p = path.join(os.homedir(), p.slice(1));
+  return path.resolve(p);
+}
+
+/** Last modification time of the SQLite file, or null when it cannot be read. */
+export function getSqliteFileModifiedAt(connectionString: string): Date | null {
+  try {
+    return fs.statSync(resolveSqlitePath(connectionString)).mtime;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when the file was modified after the given sync time. Also checks the -wal file,
+ * since writes in WAL mode land there until the next checkpoint.
+ */
+export function hasSqliteFileChangedSince(connectionString: string, lastSyncedAt?: string): boolean {
+  if (!lastSyncedAt) return false;
+  const syncedAt = new Date(lastSyncedAt).getTime();
+  if (!Number.isFinite(syncedAt)) return false;
+  const modifiedAt = getSqliteFileModifiedAt(connectionString);
+  const walModifiedAt = getSqliteFileModifiedAt(`${resolveSqlitePath(connectionString)}-wal`);
+  return [modifiedAt, walModifiedAt].some((d) => d != null && d.getTime() > syncedAt);
+}
@@ -0,0 +1,117 @@
+/**
+ * Minimal connection surface used for catalog queries. Matches `DatabaseSync` from
+ * node:sqlite (`prepare(sql).all()`) without tying the schema reader to the driver.
+ */
+export interface SqliteConnection {
+  prepare(sql: string): { all(): unknown[] };
+}
+
+export type SqliteObjectRow = {
+  type: "table" | "view";
+  name: string;
+  sql: string | null;
+};
+
+export type SqliteColumnRow = {
+  table_name: string;
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+};
+
+export type SqliteForeignKeyRow = {
+  table_name: string;
+  id: number;
+  seq: number;
+  ref_table: string;
+  from_column: string;
+  to_column: string | null;
+  on_update: string;
+  on_delete: string;
+};
+
+export type SqliteIndexRow = {
+  table_name: string;
+  index_name: string;
+  is_unique: number;
+  origin: string;
+  sql: string | null;
+};
+
+export type SqliteIndexColumnRow = {
+  table_name: string;
+  index_name: string;
+  seqno: number;
+  column_name: string | null;
+};
+
+export type SqliteSchemaData = {
+  tables: SqliteObjectRow[];
+  columns: SqliteColumnRow[];
+  foreignKeys: SqliteForeignKeyRow[];
+  indexes: SqliteIndexRow[];
+  indexColumns: SqliteIndexColumnRow[];
+};
+
+/** SQLite has no schemas; everything in the opened file lives in "main". */
+export const SQLITE_SCHEMA_NAME = "main";
+
+const TABLES_QUERY = `
+  SELECT type, name, sql
+  FROM sqlite_master
+  WHERE type IN ('table', 'view')
+    AND name NOT LIKE 'sqlite_%'
+  ORDER BY name
+`;
+
+const COLUMNS_QUERY = `
+  SELECT m.name AS table_name, p.cid, p.name, p.type, p."notnull", p.dflt_value, p.pk
+  FROM sqlite_master m
+  JOIN pragma_table_info(m.name) p
+  WHERE m.type IN ('table', 'view')
+    AND m.name NOT LIKE 'sqlite_%'
+  ORDER BY m.name, p.cid
+`;
+
+const FOREIGN_KEYS_QUERY = `
+  SELECT m.name AS table_name, f.id, f.seq, f."table" AS ref_table,
+         f."from" AS from_column, f."to" AS to_column, f.on_update, f.on_delete
+  FROM sqlite_master m
+  JOIN pragma_foreign_key_list(m.name) f
+  WHERE m.type = 'table'
+    AND m.name NOT LIKE 'sqlite_%'
+  ORDER BY m.name, f.id, f.seq
+`;
+
+const INDEXES_QUERY = `
+  SELECT m.name AS table_name, il.name AS index_name, il."unique" AS is_unique, il.origin, s.sql
+  FROM sqlite_master m
+  JOIN pragma_index_list(m.name) il
+  LEFT JOIN sqlite_master s ON s.type = 'index' AND s.name = il.name
+  WHERE m.type = 'table'
+    AND m.name NOT LIKE 'sqlite_%'
+  ORDER BY m.name, il.name
+`;
+
+const INDEX_COLUMNS_QUERY = `
+  SELECT m.name AS table_name, il.name AS index_name, ii.seqno, ii.name AS column_name
+  FROM sqlite_master m
+  JOIN pragma_index_list(m.name) il
+  JOIN pragma_index_info(il.name) ii
+  WHERE m.type = 'table'
+    AND m.name NOT LIKE 'sqlite_%'
+  ORDER BY m.name, il.name, ii.seqno
+`;
+
+export function fetchSqliteSchemaData(conn: SqliteConnection): SqliteSchemaData {
+  return {
+    tables: conn.prepare(TABLES_QUERY).all() as SqliteObjectRow[],
+    columns: conn.prepare(COLUMNS_QUERY).all() as SqliteColumnRow[],
+    foreignKeys: conn.prepare(FOREIGN_KEYS_QUERY).all() as SqliteForeignKeyRow[],
+    indexes: conn.prepare(INDEXES_QUERY).all() as SqliteIndexRow[],
+    indexColumns: conn.prepare(INDEX_COLUMNS_QUERY).all() as SqliteIndexColumnRow[],
+  };
+}
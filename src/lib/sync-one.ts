@@ -1,71 +1,73 @@
-import { Client } from "pg";
 import { getDatabase, updateDatabase } from "./databases";
 import { writeSchemaCache, type SchemaCache, type TableCacheEntry } from "./cache";
-import { parseConnectionConfig } from "./pg-config";
-import { fetchSchemaData } from "./pg-schema";
-import { buildSchemaDdl } from "./ddl-builder";
-import { buildSchemaDbml } from "./dbml-builder";
-import { fetchMongoSchema } from "./mongo-schema";
+import { getSchemaAdapter } from "./adapters";
+import type { SchemaDdlResult } from "./schema-adapter";
 
 function buildCacheFromDdls(
-  tableDdls: Map<string, string>,
-  tableTypes: Map<string, "table" | "view">,
+  result: SchemaDdlResult,
   tableDbmls?: Map<string, string>,
 ): Record<string, TableCacheEntry> {
   const tables: Record<string, TableCacheEntry> = {};
-  for (const [key, ddl] of tableDdls) {
+  for (const [key, ddl] of result.tableDdls) {
     const [schema] = key.split(".");
     tables[key] = {
       ddl,
       dbml: tableDbmls?.get(key),
       schema: schema ?? undefined,
-      type: tableTypes.get(key) ?? "table",
+      type: result.tableTypes.get(key) ?? "table",
+      parent: result.tableParents?.get(key),
+      signature: result.signatures?.get(key),
+      extras: result.extras?.get(key),
+      enums: result.tableEnums?.get(key),
+      dependencies: result.tableDependencies?.get(key),
+      columns: result.tableColumns?.get(key),
     };
   }
   return tables;
 }
 
-export async function syncDatabaseSchema(dbId: string): Promise<{ tableCount: number } | { error: string }> {
+export type SyncResult = { tableCount: number; skipped?: string[] } | { error: string };
+
+/** Toast message for a successful sync, noting catalog queries the server did not support. */
+export function formatSyncMessage(result: { tableCount: number; skipped?: string[] }): string {
+  const base = `${result.tableCount} tables cached`;
+  return result.skipped && result.skipped.length > 0 ? `${base} (skipped: ${result.skipped.join(", ")})` : base;
+}
+
+export async function syncDatabaseSchema(dbId: string): Promise<SyncResult> {
   const db = await getDatabase(dbId);
   if (!db?.connectionString?.trim()) {
     return { error: "No connection string set. Edit credentials in Manage Databases." };
   }
 
-  if (db.type === "mongodb") {
-    try {
-      const { tableDdls, tableTypes } = await fetchMongoSchema(db.connectionString);
-      const tables = buildCacheFromDdls(tableDdls, tableTypes);
-      const cache: SchemaCache = { tables };
-      writeSchemaCache(dbId, cache);
-      const lastSyncedAt = new Date().toISOString();
-      await updateDatabase(dbId, { lastSyncedAt });
-      return { tableCount: Object.keys(tables).length };
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      return { error: msg };
-    }
+  const adapter = getSchemaAdapter(db.type);
+  const invalid = adapter.validateConnectionString(db.connectionString);
+  if (invalid) {
+    return { error: invalid };
   }
 
-  const client = new Client(parseConnectionConfig(db.connectionString));
   try {
-    await client.connect();
-    const data = await fetchSchemaData(client);
-    const { tableDdls, tableTypes } = buildSchemaDdl(data);
-    const tableDbmls = buildSchemaDbml(data);
-    const tables = buildCacheFromDdls(tableDdls, tableTypes, tableDbmls);
-    const cache: SchemaCache = { tables };
+    const data = await adapter.fetchSchemaData(db.connectionString, db);
+    const ddlResult = adapter.buildDdl(data);
+    const tableDbmls = adapter.capabilities.dbml ? adapter.buildDbml?.(data) : undefined;
+    const enumDbmls = adapter.capabilities.dbml ? adapter.buildEnumDbml?.(data) : undefined;
+    const tables = buildCacheFromDdls(ddlResult, tableDbmls);
+    const enums = Array.from(ddlResult.enums ?? [], ([key, entry]) => [key, { ...entry, dbml: enumDbmls?.get(key) }]);
+    const cache: SchemaCache = {
+      tables,
+      enums: enums.length > 0 ? Object.fromEntries(enums) : undefined,
+      dependencies:
+        ddlResult.dependencies && ddlResult.dependencies.size > 0
+          ? Object.fromEntries(ddlResult.dependencies)
+          : undefined,
+    };
     writeSchemaCache(dbId, cache);
+    const { skipped, databasePatch } = adapter.syncMetadata?.(data) ?? {};
     const lastSyncedAt = new Date().toISOString();
-    await updateDatabase(dbId, { lastSyncedAt });
-    return { tableCount: Object.keys(tables).length };
+    await updateDatabase(dbId, { ...databasePatch, lastSyncedAt });
+    return { tableCount: Object.keys(tables).length, skipped };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return { error: msg };
-  } finally {
-    try {
-      await client.end();
-    } catch {
-      // ignore
-    }
   }
 }
@@ -1,7 +1,8 @@
 import { Action, ActionPanel, List, showToast, Toast, launchCommand, LaunchType, Icon } from "@raycast/api";
 import { useEffect, useState } from "react";
 import { getDatabases, type StoredDatabase } from "./lib/databases";
-import { syncDatabaseSchema } from "./lib/sync-one";
+import { formatSyncMessage, syncDatabaseSchema } from "./lib/sync-one";
+import { getSchemaAdapter } from "./lib/adapters";
 
 type SyncState = "loading" | "no-databases" | "picking" | "syncing" | "success" | "error";
 
@@ -37,7 +38,7 @@ export default function Command() {
           await showToast({
             style: Toast.Style.Success,
             title: "Schema synced",
-            message: `${result.tableCount} tables cached`,
+            message: formatSyncMessage(result),
           });
         }
         return;
@@ -63,17 +64,13 @@ export default function Command() {
       await showToast({
         style: Toast.Style.Success,
         title: "Schema synced",
-        message: `${result.tableCount} tables cached`,
+        message: formatSyncMessage(result),
       });
     }
   };
 
   const syncDescription =
-    state === "syncing" && selectedDb
-      ? selectedDb.type === "mongodb"
-        ? "Fetching collections from MongoDB"
-        : "Fetching tables and views from Postgres"
-      : "Loading…";
+    state === "syncing" && selectedDb ? getSchemaAdapter(selectedDb.type).syncDescription : "Loading…";
 
   if (state === "loading" || state === "syncing") {
     return (
@@ -171,6 +168,7 @@ export default function Command() {
           key={db.id}
           title={db.name}
           subtitle={db.lastSyncedAt ? `Last synced: ${new Date(db.lastSyncedAt).toLocaleString()}` : "Never synced"}
+          accessoryTitle={getSchemaAdapter(db.type).syncStatus?.(db)}
           actions={
             <ActionPanel>
               <Action title="Sync This Database" onAction={() => runSync(db)} />
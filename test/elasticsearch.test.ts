@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { buildElasticsearchSchemaDdl } from "../src/lib/ddl-builder-elasticsearch";
+import { fetchElasticsearchSchemaData } from "../src/lib/elasticsearch-schema";
+
+/** Responses of an 8.x cluster, in the shape Elasticsearch returns them. */
+const FIXTURES = path.join(__dirname, "fixtures", "elasticsearch");
+
+function fixture(name: string): unknown {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), "utf-8"));
+}
+
+/**
+ * Stand-in cluster: answers each path (query string ignored) from `routes`, 403 for anything else,
+ * and records the Authorization header of every request.
+ */
+async function withStandInCluster(
+  routes: Record<string, unknown>,
+  run: (url: string, authorization: (string | undefined)[]) => Promise<void>,
+): Promise<void> {
+  const authorization: (string | undefined)[] = [];
+  const server = http.createServer((req, res) => {
+    authorization.push(req.headers.authorization);
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const body = routes[pathname];
+    res.writeHead(body === undefined ? 403 : 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body ?? { error: { type: "security_exception" }, status: 403 }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, authorization);
+  } finally {
+    server.close();
+  }
+}
+
+const CLUSTER_ROUTES = {
+  "/": fixture("root"),
+  "/_mapping": fixture("_mapping"),
+  "/_alias": fixture("_alias"),
+  "/_cat/indices": fixture("_cat_indices"),
+  "/_settings": fixture("_settings"),
+};
+
+describe("elasticsearch", () => {
+  it("caches indices and aliases by cluster name, skipping hidden ones", async () => {
+    await withStandInCluster(CLUSTER_ROUTES, async (url) => {
+      const { tableTypes } = buildElasticsearchSchemaDdl(await fetchElasticsearchSchemaData(url));
+      assert.deepEqual(Object.fromEntries(tableTypes), {
+        "docker-cluster.orders-2024.06": "table",
+        "docker-cluster.products": "table",
+        "docker-cluster.catalog": "view",
+        "docker-cluster.orders": "view",
+        "docker-cluster.orders-paid": "view",
+      });
+    });
+  });
+
+  it("summarizes an index's stats, fields and analysis", async () => {
+    await withStandInCluster(CLUSTER_ROUTES, async (url) => {
+      const { tableDdls } = buildElasticsearchSchemaDdl(await fetchElasticsearchSchemaData(url));
+      assert.equal(
+        tableDdls.get("docker-cluster.products"),
+        [
+          "# Index: products",
+          "",
+          "- Docs: 1204 · Size: 1.8mb · Health: green",
+          "- Aliases: `catalog`",
+          "- Dynamic mapping: strict",
+          "",
+          "## Fields",
+          "- `created_at`: date (format: strict_date_optional_time||epoch_millis)",
+          "- `embedding`: dense_vector (index: true, dims: 384, similarity: cosine)",
+          "- `name`: text (analyzer: product_name)",
+          "  - `name.keyword`: keyword (ignore_above: 256) (multi-field)",
+          "- `price`: scaled_float (scaling_factor: 100)",
+          "- `variants`: nested",
+          "  - `variants.sku`: keyword",
+          "  - `variants.stock`: integer",
+          "",
+          "## Analysis",
+          "- analyzer `product_name`: custom (tokenizer: standard; filter: lowercase, asciifolding)",
+        ].join("\n"),
+      );
+      assert.equal(
+        tableDdls.get("docker-cluster.orders-paid"),
+        ["# Alias: orders-paid", "", "## Indices", '- `orders-2024.06` (filter: {"term":{"status":"paid"}})'].join(
+          "\n",
+        ),
+      );
+    });
+  });
+
+  it("syncs from _mapping alone when the optional endpoints are forbidden", async () => {
+    const typedMapping = {
+      legacy: { mappings: { _doc: { properties: { title: { type: "text" }, tags: { type: "keyword" } } } } },
+    };
+    await withStandInCluster({ "/_mapping": typedMapping }, async (url) => {
+      const { tableDdls } = buildElasticsearchSchemaDdl(await fetchElasticsearchSchemaData(url));
+      assert.deepEqual(Array.from(tableDdls.keys()), ["elasticsearch.legacy"]);
+      assert.equal(
+        tableDdls.get("elasticsearch.legacy"),
+        ["# Index: legacy", "", "## Fields", "- `tags`: keyword", "- `title`: text"].join("\n"),
+      );
+    });
+  });
+
+  it("sends URL credentials as Basic auth and apiKey as an ApiKey header", async () => {
+    await withStandInCluster(CLUSTER_ROUTES, async (url, authorization) => {
+      await fetchElasticsearchSchemaData(url.replace("http://", "http://elastic:s3cret@"));
+      assert.equal(authorization.length, 5);
+      assert.ok(authorization.every((h) => h === `Basic ${Buffer.from("elastic:s3cret").toString("base64")}`));
+      authorization.length = 0;
+      await fetchElasticsearchSchemaData(`${url}/?apiKey=abc123`);
+      assert.ok(authorization.every((h) => h === "ApiKey abc123"));
+    });
+  });
+});
@@ -0,0 +1,12 @@
+// Lets node:test load the extension's TypeScript modules directly: transpiled on require, not type-checked.
+/* eslint-disable @typescript-eslint/no-require-imports -- loaded with node --require, before any loader for import syntax */
+const fs = require("fs");
+const ts = require("typescript");
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf-8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
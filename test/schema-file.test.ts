@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { listMigrationFiles, readMigrationFile } from "../src/lib/schema-file-config";
+import { parseSqlSchema } from "../src/lib/sql-file-schema";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "schema-file-test-"));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+/** Write `files` (relative path -> SQL) under a fresh folder and return it. */
+function migrationsFolder(name: string, files: Record<string, string>): string {
+  const folder = path.join(root, name);
+  for (const [file, sql] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(folder, file)), { recursive: true });
+    fs.writeFileSync(path.join(folder, file), sql);
+  }
+  return folder;
+}
+
+/** Replay a folder the way the schema file adapter does and return each table's final column names. */
+function finalColumns(folder: string): Record<string, string[]> {
+  const sql = listMigrationFiles(folder).map(readMigrationFile).join("\n;\n");
+  const columns: Record<string, string[]> = {};
+  for (const [key, object] of parseSqlSchema(sql).objects) columns[key] = object.columns.map((c) => c.name);
+  return columns;
+}
+
+describe("migrations folder", () => {
+  it("cuts dbmate files at -- migrate:down", () => {
+    const folder = migrationsFolder("dbmate", {
+      "20240101000000_create_users.sql": [
+        "-- migrate:up",
+        "CREATE TABLE users (id bigint PRIMARY KEY, email text);",
+        "",
+        "-- migrate:down",
+        "DROP TABLE users;",
+      ].join("\n"),
+      "20240102000000_add_name.sql": [
+        "-- migrate:up",
+        "ALTER TABLE users ADD COLUMN name text;",
+        "-- migrate:down",
+        "ALTER TABLE users DROP COLUMN name;",
+      ].join("\n"),
+    });
+    assert.deepEqual(finalColumns(folder), { "public.users": ["id", "email", "name"] });
+  });
+
+  it("cuts goose files at -- +goose Down", () => {
+    const folder = migrationsFolder("goose", {
+      "00001_create_orders.sql": [
+        "-- +goose Up",
+        "-- +goose StatementBegin",
+        "CREATE TABLE orders (id bigint PRIMARY KEY, total numeric);",
+        "-- +goose StatementEnd",
+        "",
+        "-- +goose Down",
+        "-- +goose StatementBegin",
+        "DROP TABLE orders;",
+        "-- +goose StatementEnd",
+      ].join("\n"),
+      "00002_add_status.sql": [
+        "-- +goose Up",
+        "ALTER TABLE orders ADD COLUMN status text;",
+        "-- +goose Down",
+        "ALTER TABLE orders DROP COLUMN status;",
+      ].join("\n"),
+    });
+    assert.deepEqual(finalColumns(folder), { "public.orders": ["id", "total", "status"] });
+  });
+
+  it("skips Diesel down.sql files", () => {
+    const folder = migrationsFolder("diesel", {
+      "2024-01-01-000000_create_posts/up.sql": "CREATE TABLE posts (id bigint PRIMARY KEY, title text);",
+      "2024-01-01-000000_create_posts/down.sql": "DROP TABLE posts;",
+      "2024-01-02-000000_add_body/up.sql": "ALTER TABLE posts ADD COLUMN body text;",
+      "2024-01-02-000000_add_body/down.sql": "ALTER TABLE posts DROP COLUMN body;",
+    });
+    assert.deepEqual(
+      listMigrationFiles(folder).map((f) => path.relative(folder, f)),
+      [path.join("2024-01-01-000000_create_posts", "up.sql"), path.join("2024-01-02-000000_add_body", "up.sql")],
+    );
+    assert.deepEqual(finalColumns(folder), { "public.posts": ["id", "title", "body"] });
+  });
+
+  it("skips *_down.sql and *.down.sql files", () => {
+    const folder = migrationsFolder("suffixed", {
+      "001_create_tags.sql": "CREATE TABLE tags (id bigint PRIMARY KEY, label text);",
+      "001_create_tags_down.sql": "DROP TABLE tags;",
+      "002_add_color.up.sql": "ALTER TABLE tags ADD COLUMN color text;",
+      "002_add_color.down.sql": "ALTER TABLE tags DROP COLUMN color;",
+    });
+    assert.deepEqual(
+      listMigrationFiles(folder).map((f) => path.basename(f)),
+      ["001_create_tags.sql", "002_add_color.up.sql"],
+    );
+    assert.deepEqual(finalColumns(folder), { "public.tags": ["id", "label", "color"] });
+  });
+});